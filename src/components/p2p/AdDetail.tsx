@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Clock, AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReferencePrice } from '@/hooks/use-reference-prices';
+import { useOffer, usePaymentMethodsByIds, useTradeCounterparty } from '@/hooks/use-p2p-queries';
+import { getOfferPaymentMethods } from '@/lib/p2p-fiat';
+import { formatMargin, getEffectivePrice } from '@/lib/p2p-pricing';
+import { formatCrypto, formatPrice } from '@/lib/money';
+import { TradeCounterpartyCard } from './TradeCounterpartyCard';
+import { TradeModal } from './TradeModal';
+
+interface AdDetailProps {
+  offerId: string;
+  onTradeStarted: (tradeId: string) => void;
+  onManageAds: () => void;
+}
+
+/**
+ * A single ad opened from a link: terms, owner and the button to trade on it
+ */
+export function AdDetail({ offerId, onTradeStarted, onManageAds }: AdDetailProps) {
+  const { user } = useAuth();
+  const [showTradeModal, setShowTradeModal] = useState(false);
+  const { data: offer, isLoading } = useOffer(offerId);
+  const { data: owner = null } = useTradeCounterparty(offer?.seller_id);
+  const { data: methods = [] } = usePaymentMethodsByIds(offer ? getOfferPaymentMethods(offer).map(m => m.payment_method_id) : []);
+  const isFloating = offer?.price_type === 'floating';
+  const referencePrice = useReferencePrice(offer?.token ?? 'HEZ', offer?.fiat_currency ?? 'TRY', isFloating);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-green-500" />
+      </div>
+    );
+  }
+
+  if (!offer) {
+    return (
+      <div className="text-center py-12 px-4">
+        <p className="text-muted-foreground">This ad does not exist</p>
+      </div>
+    );
+  }
+
+  // A sell ad is taken by a buyer and the other way round
+  const takerBuys = offer.ad_type === 'sell';
+  const isOwnAd = offer.seller_id === user?.id;
+  const isAvailable = offer.status === 'open' && offer.remaining_amount > 0 && new Date(offer.expires_at) > new Date();
+  const pricePerUnit = getEffectivePrice(offer, referencePrice?.price);
+
+  return (
+    <div className="p-4 space-y-4">
+      <Card className="bg-card">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">
+              {takerBuys ? 'Buy' : 'Sell'} {offer.token}
+            </CardTitle>
+            <Badge variant={isAvailable ? 'default' : 'secondary'}>
+              {isAvailable ? 'OPEN' : offer.status.toUpperCase()}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Price</span>
+            <span className="font-semibold text-green-400">
+              {formatPrice(pricePerUnit, offer.fiat_currency, offer.token)}
+            </span>
+          </div>
+          {isFloating && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Pricing</span>
+              <span>Floating {formatMargin(offer.price_margin_percent ?? 0)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Available</span>
+            <span>{formatCrypto(offer.remaining_amount, offer.token)}</span>
+          </div>
+          {(offer.min_order_amount || offer.max_order_amount) && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Limits</span>
+              <span>
+                {formatCrypto(offer.min_order_amount ?? 0, offer.token, { showCode: false })}
+                {' - '}
+                {offer.max_order_amount
+                  ? formatCrypto(offer.max_order_amount, offer.token)
+                  : formatCrypto(offer.remaining_amount, offer.token)}
+              </span>
+            </div>
+          )}
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Payment</span>
+            <span className="flex flex-wrap gap-1 justify-end">
+              {methods.map(method => (
+                <Badge key={method.id} variant="outline" className="text-xs">
+                  {method.method_name}
+                </Badge>
+              ))}
+            </span>
+          </div>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground pt-1">
+            <Clock className="w-3 h-3" />
+            Payment within {offer.time_limit_minutes} minutes
+          </div>
+          {offer.auto_reply_message && (
+            <p className="text-xs text-muted-foreground border-t border-border pt-2">
+              {offer.auto_reply_message}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {!isOwnAd && (
+        <TradeCounterpartyCard counterpartyId={offer.seller_id} counterparty={owner} isBuyer={takerBuys} />
+      )}
+
+      {isOwnAd ? (
+        <Button variant="outline" className="w-full" onClick={onManageAds}>
+          Manage in My Ads
+        </Button>
+      ) : isAvailable ? (
+        <Button
+          className={`w-full ${takerBuys ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+          onClick={() => setShowTradeModal(true)}
+        >
+          {takerBuys ? 'Buy' : 'Sell'} {offer.token}
+        </Button>
+      ) : (
+        <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-2">
+          <AlertTriangle className="w-4 h-4" />
+          This ad is no longer available
+        </div>
+      )}
+
+      {showTradeModal && (
+        <TradeModal
+          offer={offer}
+          onClose={() => setShowTradeModal(false)}
+          onTradeStarted={onTradeStarted}
+        />
+      )}
+    </div>
+  );
+}
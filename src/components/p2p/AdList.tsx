@@ -1,196 +1,133 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Loader2, Shield, Zap } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useReferencePrices } from '@/hooks/use-reference-prices';
+import { useOfferFeed } from '@/hooks/use-p2p-queries';
 import { TradeModal } from './TradeModal';
 import { MerchantTierBadge } from './MerchantTierBadge';
-import { getUserReputation, type P2PFiatOffer, type P2PReputation } from '@/lib/p2p-fiat';
-import { supabase } from '@/lib/supabase';
+import { PresenceIndicator } from './PresenceIndicator';
+import {
+  getMyOffers,
+  getUserReputation,
+  getOfferPaymentMethods,
+  getPaymentMethodsByIds,
+  type CryptoToken,
+  type P2PFiatOffer
+} from '@/lib/p2p-fiat';
+import type { OfferFeedItem, OfferFeedQuery } from '@/lib/offer-feed';
+import { p2pKeys } from '@/lib/query-keys';
+import { formatMargin, getEffectivePrice, pairKey } from '@/lib/p2p-pricing';
+import { completionRate } from '@/lib/merchant-ranking';
+import { formatCrypto, formatFiat } from '@/lib/money';
 import type { P2PFilters } from './types';
 
 interface AdListProps {
   type: 'buy' | 'sell' | 'my-ads';
   filters?: P2PFilters;
+  onOfferOpen?: (offerId: string) => void;
+  onTradeStarted?: (tradeId: string) => void;
 }
 
-interface OfferWithReputation extends P2PFiatOffer {
-  seller_reputation?: P2PReputation;
-  payment_method_name?: string;
-  merchant_tier?: 'lite' | 'super' | 'diamond';
+function toFeedQuery(type: 'buy' | 'sell', filters?: P2PFilters): OfferFeedQuery {
+  // Buy tab = show SELL offers (user wants to buy from sellers), and vice versa
+  const adType = type === 'buy' ? 'sell' : 'buy';
+  if (!filters) return { adType, sortBy: 'newest', sortOrder: 'desc' };
+
+  return {
+    adType,
+    token: filters.token !== 'all' ? filters.token as CryptoToken : undefined,
+    fiatCurrency: filters.fiatCurrency !== 'all' ? filters.fiatCurrency : undefined,
+    paymentMethodIds: filters.paymentMethods,
+    minAmount: filters.minAmount,
+    maxAmount: filters.maxAmount,
+    merchantTiers: filters.merchantTiers,
+    minCompletionRate: filters.minCompletionRate,
+    verifiedOnly: filters.verifiedOnly,
+    onlineOnly: filters.onlineOnly,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder
+  };
 }
 
-export function AdList({ type, filters }: AdListProps) {
+export function AdList({ type, filters, onOfferOpen, onTradeStarted }: AdListProps) {
   const { user } = useAuth();
-  const [offers, setOffers] = useState<OfferWithReputation[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedOffer, setSelectedOffer] = useState<OfferWithReputation | null>(null);
-
-  useEffect(() => {
-    fetchOffers();
-
-    // Refresh data when user returns to the tab (visibility change)
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        fetchOffers();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [type, user, filters]);
-
-  const fetchOffers = async () => {
-    setLoading(true);
-    try {
-      let offersData: P2PFiatOffer[] = [];
-
-      // For "my-ads", use Edge Function to bypass RLS (Telegram auth doesn't set auth.uid())
-      if (type === 'my-ads') {
-        const sessionToken = localStorage.getItem('p2p_session');
-        if (!sessionToken) {
-          setOffers([]);
-          setLoading(false);
-          return;
-        }
-
-        const { data, error } = await supabase.functions.invoke('get-my-offers', {
-          body: { sessionToken }
-        });
-
-        if (error) {
-          console.error('Get my offers error:', error);
-          setOffers([]);
-          setLoading(false);
-          return;
-        }
-
-        offersData = data?.offers || [];
-      } else {
-        // Build base query for public offers
-        let query = supabase.from('p2p_fiat_offers').select('*');
-
-        if (type === 'buy') {
-          // Buy tab = show SELL offers (user wants to buy from sellers)
-          query = query.eq('ad_type', 'sell').eq('status', 'open').gt('remaining_amount', 0);
-        } else if (type === 'sell') {
-          // Sell tab = show BUY offers (user wants to sell to buyers)
-          query = query.eq('ad_type', 'buy').eq('status', 'open').gt('remaining_amount', 0);
-        }
-
-        // Apply filters if provided
-        if (filters) {
-          // Token filter
-          if (filters.token && filters.token !== 'all') {
-            query = query.eq('token', filters.token);
-          }
-
-          // Fiat currency filter
-          if (filters.fiatCurrency && filters.fiatCurrency !== 'all') {
-            query = query.eq('fiat_currency', filters.fiatCurrency);
-          }
-
-          // Payment method filter
-          if (filters.paymentMethods && filters.paymentMethods.length > 0) {
-            query = query.in('payment_method_id', filters.paymentMethods);
-          }
-
-          // Amount range filter
-          if (filters.minAmount !== null) {
-            query = query.gte('remaining_amount', filters.minAmount);
-          }
-          if (filters.maxAmount !== null) {
-            query = query.lte('remaining_amount', filters.maxAmount);
-          }
-
-          // Sort order
-          const sortColumn = filters.sortBy === 'price' ? 'price_per_unit' :
-                            filters.sortBy === 'completion_rate' ? 'created_at' :
-                            filters.sortBy === 'trades' ? 'created_at' :
-                            'created_at';
-          query = query.order(sortColumn, { ascending: filters.sortOrder === 'asc' });
-        } else {
-          query = query.order('created_at', { ascending: false });
-        }
-
-        const { data } = await query;
-        offersData = data || [];
-      }
-
-      // Enrich with reputation, payment method, and merchant tier
-      const enrichedOffers = await Promise.all(
-        offersData.map(async (offer) => {
-          const [reputation, paymentMethod, merchantTier] = await Promise.all([
-            getUserReputation(offer.seller_id),
-            supabase
-              .from('payment_methods')
-              .select('method_name')
-              .eq('id', offer.payment_method_id)
-              .single(),
-            supabase
-              .from('p2p_merchant_tiers')
-              .select('tier')
-              .eq('user_id', offer.seller_id)
-              .single()
-          ]);
-
-          return {
-            ...offer,
-            seller_reputation: reputation || undefined,
-            payment_method_name: paymentMethod.data?.method_name,
-            merchant_tier: merchantTier.data?.tier as 'lite' | 'super' | 'diamond' | undefined
-          };
-        })
-      );
+  const [selectedOffer, setSelectedOffer] = useState<OfferFeedItem | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Own ads are few; they come from the Edge Function (Telegram auth doesn't set auth.uid())
+  const fetchMyOffers = async (): Promise<OfferFeedItem[]> => {
+    const [myOffers, reputation] = await Promise.all([
+      getMyOffers(),
+      user ? getUserReputation(user.id) : Promise.resolve(null)
+    ]);
+
+    const methodIds = [...new Set(myOffers.flatMap(offer => getOfferPaymentMethods(offer).map(m => m.payment_method_id)))];
+    const methods = await getPaymentMethodsByIds(methodIds);
+    const methodNames = new Map(methods.map(m => [m.id, m.method_name]));
+
+    return myOffers.map(offer => ({
+      ...offer,
+      seller_reputation: reputation,
+      completion_rate: completionRate(reputation),
+      merchant_tier: null,
+      seller_last_seen_at: null,
+      payment_method_names: getOfferPaymentMethods(offer)
+        .map(m => methodNames.get(m.payment_method_id))
+        .filter((name): name is string => !!name)
+    }));
+  };
 
-      // Apply client-side filters (completion rate, merchant tier)
-      let filteredOffers = enrichedOffers;
+  const isMyAds = type === 'my-ads';
+  const feedQuery = toFeedQuery(type === 'my-ads' ? 'sell' : type, filters);
+  // A new filter set is a new query key, so responses for an outdated one never show
+  const feed = useOfferFeed(feedQuery, !isMyAds);
+  const myOffers = useQuery({
+    queryKey: p2pKeys.myOfferFeed(),
+    queryFn: () => fetchMyOffers(),
+    enabled: isMyAds
+  });
+
+  const loading = isMyAds ? myOffers.isLoading : feed.isLoading;
+  const hasMore = !isMyAds && feed.hasNextPage;
+  const { fetchNextPage, isFetchingNextPage: loadingMore } = feed;
+
+  // Pages are shown in server order; offers can shift between pages while new ads are posted
+  const offers = useMemo(() => {
+    if (isMyAds) return myOffers.data ?? [];
+    const seen = new Set<string>();
+    return (feed.data?.pages ?? []).flatMap(page => page.offers).filter(offer => {
+      if (seen.has(offer.id)) return false;
+      seen.add(offer.id);
+      return true;
+    });
+  }, [isMyAds, myOffers.data, feed.data]);
+
+  // Floating offers are repriced live from the reference price of their pair
+  const referencePrices = useReferencePrices(
+    offers
+      .filter(offer => offer.price_type === 'floating')
+      .map(offer => ({ token: offer.token, fiat: offer.fiat_currency }))
+  );
+  const priceOf = (offer: P2PFiatOffer) =>
+    getEffectivePrice(offer, referencePrices[pairKey(offer.token, offer.fiat_currency)]?.price);
 
-      if (filters) {
-        // Completion rate filter (needs reputation data)
-        if (filters.minCompletionRate > 0) {
-          filteredOffers = filteredOffers.filter(offer => {
-            if (!offer.seller_reputation) return false;
-            const rate = (offer.seller_reputation.completed_trades / (offer.seller_reputation.total_trades || 1)) * 100;
-            return rate >= filters.minCompletionRate;
-          });
-        }
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
 
-        // Merchant tier filter
-        if (filters.merchantTiers && filters.merchantTiers.length > 0) {
-          filteredOffers = filteredOffers.filter(offer => {
-            if (!offer.merchant_tier) return false;
-            // If super is selected, include super and diamond
-            // If diamond is selected, include only diamond
-            if (filters.merchantTiers.includes('diamond')) {
-              return offer.merchant_tier === 'diamond';
-            }
-            if (filters.merchantTiers.includes('super')) {
-              return offer.merchant_tier === 'super' || offer.merchant_tier === 'diamond';
-            }
-            return filters.merchantTiers.includes(offer.merchant_tier);
-          });
-        }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !loadingMore) fetchNextPage();
+    }, { rootMargin: '200px' });
 
-        // Verified only filter
-        if (filters.verifiedOnly) {
-          filteredOffers = filteredOffers.filter(offer => offer.seller_reputation?.verified_merchant);
-        }
-      }
-
-      setOffers(filteredOffers);
-    } catch (error) {
-      if (import.meta.env.DEV) console.error('Fetch offers error:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, fetchNextPage]);
 
   if (loading) {
     return (
@@ -216,8 +153,11 @@ export function AdList({ type, filters }: AdListProps) {
         <Card key={offer.id} className="bg-gray-900 border-gray-800 hover:border-gray-700 transition-colors">
           <CardContent className="p-3">
             <div className="flex items-center justify-between gap-3">
-              {/* Seller Info - Compact */}
-              <div className="flex items-center gap-2 min-w-0 flex-shrink-0">
+              {/* Seller Info - Compact; opens the ad page */}
+              <div
+                className={`flex items-center gap-2 min-w-0 flex-shrink-0 ${onOfferOpen ? 'cursor-pointer' : ''}`}
+                onClick={() => onOfferOpen?.(offer.id)}
+              >
                 <Avatar className="h-8 w-8">
                   <AvatarFallback className="bg-green-500/20 text-green-400 text-xs">
                     {(offer.seller_wallet || 'XX').slice(0, 2).toUpperCase()}
@@ -234,9 +174,12 @@ export function AdList({ type, filters }: AdListProps) {
                   </div>
                   {offer.seller_reputation && (
                     <p className="text-xs text-gray-500">
-                      {offer.seller_reputation.completed_trades} trades
+                      {offer.seller_reputation.completed_trades} trades · {offer.completion_rate.toFixed(0)}%
                     </p>
                   )}
+                  {type !== 'my-ads' && (
+                    <PresenceIndicator userId={offer.seller_id} lastSeenAt={offer.seller_last_seen_at} />
+                  )}
                 </div>
               </div>
 
@@ -244,20 +187,30 @@ export function AdList({ type, filters }: AdListProps) {
               <div className="flex items-center gap-4 flex-1 justify-center">
                 <div className="text-center">
                   <p className="text-sm font-bold text-green-400">
-                    {offer.price_per_unit?.toFixed(2) || '0.00'} {offer.fiat_currency}
+                    {formatFiat(priceOf(offer), offer.fiat_currency)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {offer.price_type === 'floating'
+                      ? `floating ${formatMargin(offer.price_margin_percent ?? 0)}`
+                      : 'price'}
                   </p>
-                  <p className="text-xs text-gray-500">price</p>
                 </div>
                 <div className="text-center">
                   <p className="text-sm font-semibold text-white">
-                    {offer.remaining_amount} {offer.token}
+                    {formatCrypto(offer.remaining_amount, offer.token)}
                   </p>
                   <p className="text-xs text-gray-500">available</p>
                 </div>
-                <div className="text-center hidden sm:block">
-                  <Badge variant="outline" className="text-xs">
-                    {offer.payment_method_name || 'N/A'}
-                  </Badge>
+                <div className="text-center hidden sm:flex flex-wrap gap-1 justify-center">
+                  {offer.payment_method_names?.length ? (
+                    offer.payment_method_names.map(name => (
+                      <Badge key={name} variant="outline" className="text-xs">
+                        {name}
+                      </Badge>
+                    ))
+                  ) : (
+                    <Badge variant="outline" className="text-xs">N/A</Badge>
+                  )}
                 </div>
               </div>
 
@@ -286,14 +239,17 @@ export function AdList({ type, filters }: AdListProps) {
         </Card>
       ))}
 
+      {hasMore && (
+        <div ref={sentinelRef} className="flex items-center justify-center py-4">
+          {loadingMore && <Loader2 className="w-5 h-5 animate-spin text-green-500" />}
+        </div>
+      )}
+
       {selectedOffer && (
         <TradeModal
           offer={selectedOffer}
-          onClose={() => {
-            setSelectedOffer(null);
-            fetchOffers(); // Refresh list
-     
-          }}
+          onClose={() => setSelectedOffer(null)}
+          onTradeStarted={onTradeStarted}
         />
       )}
     </div>
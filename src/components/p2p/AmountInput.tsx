@@ -0,0 +1,70 @@
+/**
+ * Amount Input - Mobile P2P
+ *
+ * Text field for crypto and fiat amounts. Accepts the user's locale separators
+ * and Eastern Arabic / Persian digits, groups the number as it is typed and
+ * refuses more decimals than the asset allows. The value is a plain decimal
+ * string ("1234.5"); see amount-input for the parsing rules.
+ */
+import { useLayoutEffect, useRef, type InputHTMLAttributes } from 'react';
+import { Input } from '@/components/ui/input';
+import { amountRangeError, formatAmountInput, getSeparators, parseAmountInput } from '@/lib/amount-input';
+import type { DecimalInput } from '@/lib/decimal';
+
+type NativeInputProps = Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type' | 'min' | 'max'>;
+
+interface AmountInputProps extends NativeInputProps {
+  value: string; // Plain decimal string, '' when empty
+  onChange: (value: string) => void;
+  decimals: number; // Asset precision; extra decimals can't be typed
+  min?: DecimalInput | null;
+  max?: DecimalInput | null;
+  locale?: string;
+}
+
+export function AmountInput({ value, onChange, decimals, min, max, locale, className, ...props }: AmountInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Digits and decimal point before the caret, to restore it after regrouping
+  const caretChars = useRef<number | null>(null);
+
+  const display = formatAmountInput(value, locale);
+  const outOfRange = amountRangeError(value, { min, max }, '', locale) !== null;
+
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (!input || caretChars.current === null || document.activeElement !== input) return;
+
+    const { decimal } = getSeparators(locale);
+    let seen = 0;
+    let position = 0;
+    while (position < display.length && seen < caretChars.current) {
+      const char = display[position];
+      if (char === decimal || /\d/.test(char)) seen++;
+      position++;
+    }
+    input.setSelectionRange(position, position);
+    caretChars.current = null;
+  });
+
+  const handleChange = (text: string, caret: number | null) => {
+    const next = parseAmountInput(text, decimals, locale);
+    if (next === null) return; // Not a number or too precise: keep the previous value
+
+    caretChars.current = (parseAmountInput(text.slice(0, caret ?? text.length), decimals, locale) ?? next).length;
+    onChange(next);
+  };
+
+  return (
+    <Input
+      {...props}
+      ref={inputRef}
+      type="text"
+      inputMode={decimals > 0 ? 'decimal' : 'numeric'}
+      autoComplete="off"
+      value={display}
+      onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+      aria-invalid={outOfRange || undefined}
+      className={`${className ?? ''} ${outOfRange ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+    />
+  );
+}
@@ -26,6 +26,8 @@ import {
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { useAssets } from '@/hooks/use-assets';
+import { getFiatInfo, getTokenInfo } from '@/lib/assets';
 import type { CryptoToken, FiatCurrency } from '@/lib/p2p-fiat';
 
 interface BlockTradeRequest {
@@ -40,33 +42,6 @@ interface BlockTradeRequest {
   created_at: string;
 }
 
-const SUPPORTED_TOKENS: CryptoToken[] = ['HEZ', 'PEZ'];
-
-// All supported fiat currencies including Kurdish Diaspora countries
-const SUPPORTED_FIATS: { code: FiatCurrency; name: string; symbol: string; region: string }[] = [
-  // Primary regions (Kurdistan & neighboring)
-  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', region: 'Bakur' },
-  { code: 'IQD', name: 'Iraqi Dinar', symbol: 'د.ع', region: 'Başûr' },
-  { code: 'IRR', name: 'Iranian Rial', symbol: '﷼', region: 'Rojhilat' },
-  // Eurozone diaspora
-  { code: 'EUR', name: 'Euro', symbol: '€', region: 'EU' },
-  // Other diaspora regions
-  { code: 'USD', name: 'US Dollar', symbol: '$', region: 'USA' },
-  { code: 'GBP', name: 'British Pound', symbol: '£', region: 'UK' },
-  { code: 'SEK', name: 'Swedish Krona', symbol: 'kr', region: 'Sweden' },
-  { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr.', region: 'Switzerland' },
-  { code: 'NOK', name: 'Norwegian Krone', symbol: 'kr', region: 'Norway' },
-  { code: 'DKK', name: 'Danish Krone', symbol: 'kr', region: 'Denmark' },
-  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', region: 'Australia' },
-  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', region: 'Canada' },
-];
-
-// Minimum amounts for block trade (in USD equivalent)
-const MINIMUM_BLOCK_AMOUNTS: Record<CryptoToken, number> = {
-  HEZ: 10000,  // 10,000 HEZ minimum
-  PEZ: 50000,  // 50,000 PEZ minimum
-};
-
 export function BlockTrade() {
   const [showRequestModal, setShowRequestModal] = useState(false);
   const [type, setType] = useState<'buy' | 'sell'>('buy');
@@ -79,8 +54,9 @@ export function BlockTrade() {
   const [requests, setRequests] = useState<BlockTradeRequest[]>([]);
 
   const { user } = useAuth();
-  const fiatSymbol = SUPPORTED_FIATS.find(f => f.code === fiat)?.symbol || '';
-  const minAmount = MINIMUM_BLOCK_AMOUNTS[token];
+  const { enabledFiats, enabledTokens } = useAssets();
+  const fiatSymbol = getFiatInfo(fiat).symbol;
+  const minAmount = getTokenInfo(token).minBlockAmount;
 
   // Fetch user's block trade requests
   React.useEffect(() => {
@@ -206,9 +182,9 @@ export function BlockTrade() {
           <div className="p-3 bg-gray-800/50 rounded-lg">
             <p className="text-xs text-gray-500 mb-2">Minimum Block Trade Amounts:</p>
             <div className="flex flex-wrap gap-2">
-              {Object.entries(MINIMUM_BLOCK_AMOUNTS).map(([t, min]) => (
-                <Badge key={t} variant="outline" className="border-gray-700 text-gray-300">
-                  {min.toLocaleString()} {t}
+              {enabledTokens.map(t => (
+                <Badge key={t.code} variant="outline" className="border-gray-700 text-gray-300">
+                  {t.minBlockAmount.toLocaleString()} {t.code}
                 </Badge>
               ))}
             </div>
@@ -286,7 +262,7 @@ export function BlockTrade() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {SUPPORTED_TOKENS.map(t => (
+                    {enabledTokens.map(({ code: t }) => (
                       <SelectItem key={t} value={t}>{t}</SelectItem>
                     ))}
                   </SelectContent>
@@ -299,7 +275,7 @@ export function BlockTrade() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {SUPPORTED_FIATS.map(f => (
+                    {enabledFiats.map(f => (
                       <SelectItem key={f.code} value={f.code}>
                         {f.symbol} {f.code}
                       </SelectItem>
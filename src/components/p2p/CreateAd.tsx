@@ -1,19 +1,31 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useReferencePrice } from '@/hooks/use-reference-prices';
+import { useAssets } from '@/hooks/use-assets';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Loader2 } from 'lucide-react';
+import { usePaymentMethods } from '@/hooks/use-p2p-queries';
+import { useCreateOffer } from '@/hooks/use-p2p-mutations';
 import {
-  getPaymentMethods,
   validatePaymentDetails,
-  createFiatOffer,
+  formatPaymentFieldLabel,
   type PaymentMethod,
   type FiatCurrency,
   type CryptoToken
 } from '@/lib/p2p-fiat';
+import { applyMargin, formatMargin, validateFloatingPricing, type FloatingPricing, type PriceType } from '@/lib/p2p-pricing';
+import { fiatTotal, formatPrice, roundCrypto, roundFiat, unitPrice } from '@/lib/money';
+import { amountToDecimal } from '@/lib/amount-input';
+import { isZero, toDecimal } from '@/lib/decimal';
+import { fromDisplayAmount, getDisplayUnit } from '@/lib/fiat-display';
+import { getTokenInfo } from '@/lib/assets';
+import { PriceDeviationWarning } from './PriceDeviationWarning';
+import { AmountInput } from './AmountInput';
 
 interface CreateAdProps {
   onAdCreated: () => void;
@@ -21,9 +33,9 @@ interface CreateAdProps {
 
 export function CreateAd({ onAdCreated }: CreateAdProps) {
   const { user } = useAuth();
+  const { enabledFiats, enabledTokens } = useAssets();
   
-  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod | null>(null);
+  const [selectedPaymentMethods, setSelectedPaymentMethods] = useState<PaymentMethod[]>([]);
   const [loading, setLoading] = useState(false);
   
   // Form fields
@@ -32,43 +44,67 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
   const [amountCrypto, setAmountCrypto] = useState('');
   const [fiatCurrency, setFiatCurrency] = useState<FiatCurrency>('TRY');
   const [fiatAmount, setFiatAmount] = useState('');
-  const [paymentDetails, setPaymentDetails] = useState<Record<string, string>>({});
+  const [priceType, setPriceType] = useState<PriceType>('fixed');
+  const [marginPercent, setMarginPercent] = useState('0');
+  const [floorPrice, setFloorPrice] = useState('');
+  const [ceilingPrice, setCeilingPrice] = useState('');
+  // Details per selected payment method id
+  const [paymentDetails, setPaymentDetails] = useState<Record<string, Record<string, string>>>({});
   const [timeLimit, setTimeLimit] = useState(30);
   const [minOrderAmount, setMinOrderAmount] = useState('');
   const [maxOrderAmount, setMaxOrderAmount] = useState('');
 
-  // Load payment methods when currency changes
-  useEffect(() => {
-    const loadPaymentMethods = async () => {
-      const methods = await getPaymentMethods(fiatCurrency);
-      setPaymentMethods(methods);
-      setSelectedPaymentMethod(null);
-      setPaymentDetails({});
-    };
-    loadPaymentMethods();
-  }, [fiatCurrency]);
-
-  // Calculate price per unit
-  const pricePerUnit = amountCrypto && fiatAmount 
-    ? (parseFloat(fiatAmount) / parseFloat(amountCrypto)).toFixed(2)
-    : '0';
-
-  const handlePaymentMethodChange = (methodId: string) => {
-    const method = paymentMethods.find(m => m.id === methodId);
-    setSelectedPaymentMethod(method || null);
-    
-    // Initialize payment details with empty values
-    if (method) {
-      const initialDetails: Record<string, string> = {};
-      Object.keys(method.fields).forEach(field => {
-        initialDetails[field] = '';
-      });
-      setPaymentDetails(initialDetails);
+  const { data: paymentMethods = [] } = usePaymentMethods(fiatCurrency);
+  const createOffer = useCreateOffer();
+
+  const isFloating = priceType === 'floating';
+  const referencePrice = useReferencePrice(token, fiatCurrency, isFloating);
+  const floatingPricing: FloatingPricing = {
+    marginPercent: parseFloat(marginPercent),
+    floorPrice: floorPrice ? parseFloat(floorPrice) : null,
+    ceilingPrice: ceilingPrice ? parseFloat(ceilingPrice) : null
+  };
+  const pricingError = isFloating ? validateFloatingPricing(floatingPricing) : null;
+  const floatingPrice = referencePrice && !pricingError ? applyMargin(referencePrice.price, floatingPricing, fiatCurrency) : null;
+
+  // Amounts at the token's and fiat's precision
+  const tokenDecimals = getTokenInfo(token).decimals;
+  const cryptoValue = roundCrypto(amountToDecimal(amountCrypto), token);
+  // The total is entered in the user's display unit (toman for some IRR users)
+  const fiatValue = roundFiat(fromDisplayAmount(amountToDecimal(fiatAmount), fiatCurrency), fiatCurrency);
+
+  // Calculate price per unit (floating ads follow the reference price)
+  const pricePerUnit = isFloating
+    ? toDecimal(floatingPrice ?? 0)
+    : !isZero(cryptoValue) && !isZero(fiatValue)
+      ? unitPrice(fiatValue, cryptoValue, fiatCurrency)
+      : toDecimal(0);
+
+  // Selected methods belong to the previous currency
+  const selectFiatCurrency = (currency: FiatCurrency) => {
+    setFiatCurrency(currency);
+    setSelectedPaymentMethods([]);
+    setPaymentDetails({});
+  };
+
+  const handlePaymentMethodToggle = (method: PaymentMethod, checked: boolean) => {
+    if (!checked) {
+      setSelectedPaymentMethods(prev => prev.filter(m => m.id !== method.id));
+      return;
     }
+
+    setSelectedPaymentMethods(prev => [...prev, method]);
+
+    // Initialize payment details with empty values
+    const initialDetails: Record<string, string> = {};
+    Object.keys(method.fields).forEach(field => {
+      initialDetails[field] = '';
+    });
+    setPaymentDetails(prev => ({ ...prev, [method.id]: initialDetails }));
   };
 
-  const handlePaymentDetailChange = (field: string, value: string) => {
-    setPaymentDetails(prev => ({ ...prev, [field]: value }));
+  const handlePaymentDetailChange = (methodId: string, field: string, value: string) => {
+    setPaymentDetails(prev => ({ ...prev, [methodId]: { ...prev[methodId], [field]: value } }));
   };
 
   const handleCreateAd = async () => {
@@ -76,46 +112,48 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
       return;
     }
 
-    if (!selectedPaymentMethod) {
+    if (selectedPaymentMethods.length === 0) {
       return;
     }
 
-    // Validate payment details
-    const validation = validatePaymentDetails(
-      paymentDetails,
-      selectedPaymentMethod.validation_rules
+    // Validate payment details of every selected method
+    const allValid = selectedPaymentMethods.every(method =>
+      validatePaymentDetails(paymentDetails[method.id] || {}, method.validation_rules).valid
     );
 
-    if (!validation.valid) {
+    if (!allValid) {
       return;
     }
 
     // Validate amounts
-    const cryptoAmt = parseFloat(amountCrypto);
-    const fiatAmt = parseFloat(fiatAmount);
+    const cryptoAmt = cryptoValue;
+    const fiatAmt = isFloating ? fiatTotal(cryptoAmt, floatingPrice ?? 0, fiatCurrency) : fiatValue;
 
-    if (!cryptoAmt || cryptoAmt <= 0) {
+    if (isZero(cryptoAmt)) {
       return;
     }
 
-    if (!fiatAmt || fiatAmt <= 0) {
+    if (isZero(fiatAmt)) {
       return;
     }
 
     setLoading(true);
 
     try {
-      // Use createFiatOffer which handles escrow locking via internal ledger
-      await createFiatOffer({
+      // createFiatOffer handles escrow locking via the internal ledger
+      await createOffer.mutateAsync({
         token,
         amountCrypto: cryptoAmt,
         fiatCurrency,
         fiatAmount: fiatAmt,
-        paymentMethodId: selectedPaymentMethod.id,
-        paymentDetails,
+        paymentMethods: selectedPaymentMethods.map(method => ({
+          paymentMethodId: method.id,
+          paymentDetails: paymentDetails[method.id] || {}
+        })),
+        pricing: isFloating ? floatingPricing : undefined,
         timeLimitMinutes: timeLimit,
-        minOrderAmount: minOrderAmount ? parseFloat(minOrderAmount) : undefined,
-        maxOrderAmount: maxOrderAmount ? parseFloat(maxOrderAmount) : undefined,
+        minOrderAmount: minOrderAmount ? roundCrypto(amountToDecimal(minOrderAmount), token) : undefined,
+        maxOrderAmount: maxOrderAmount ? roundCrypto(amountToDecimal(maxOrderAmount), token) : undefined,
       });
 
       onAdCreated();
@@ -172,19 +210,19 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="HEZ">HEZ</SelectItem>
-                <SelectItem value="PEZ">PEZ</SelectItem>
+                {enabledTokens.map(t => (
+                  <SelectItem key={t.code} value={t.code}>{t.code}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
           <div>
             <Label htmlFor="amountCrypto">Amount ({token})</Label>
-            <Input
+            <AmountInput
               id="amountCrypto"
-              type="number"
-              step="0.01"
               value={amountCrypto}
-              onChange={e => setAmountCrypto(e.target.value)}
+              onChange={setAmountCrypto}
+              decimals={tokenDecimals}
               placeholder="Amount"
               className="placeholder:text-gray-500 placeholder:opacity-50"
             />
@@ -195,113 +233,198 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
         <div className="grid grid-cols-2 gap-4">
           <div>
             <Label htmlFor="fiatCurrency">Fiat Currency</Label>
-            <Select value={fiatCurrency} onValueChange={(v) => setFiatCurrency(v as FiatCurrency)}>
+            <Select value={fiatCurrency} onValueChange={(v) => selectFiatCurrency(v as FiatCurrency)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {/* Primary regions - Kurdistan & neighboring */}
-                <SelectItem value="TRY">🇹🇷 Turkish Lira (TRY) - Bakur</SelectItem>
-                <SelectItem value="IQD">🇮🇶 Iraqi Dinar (IQD) - Başûr</SelectItem>
-                <SelectItem value="IRR">🇮🇷 Iranian Rial (IRR) - Rojhilat</SelectItem>
-                {/* Eurozone diaspora */}
-                <SelectItem value="EUR">🇪🇺 Euro (EUR) - EU</SelectItem>
-                {/* Other diaspora regions */}
-                <SelectItem value="USD">🇺🇸 US Dollar (USD)</SelectItem>
-                <SelectItem value="GBP">🇬🇧 British Pound (GBP)</SelectItem>
-                <SelectItem value="SEK">🇸🇪 Swedish Krona (SEK)</SelectItem>
-                <SelectItem value="CHF">🇨🇭 Swiss Franc (CHF)</SelectItem>
-                <SelectItem value="NOK">🇳🇴 Norwegian Krone (NOK)</SelectItem>
-                <SelectItem value="DKK">🇩🇰 Danish Krone (DKK)</SelectItem>
-                <SelectItem value="AUD">🇦🇺 Australian Dollar (AUD)</SelectItem>
-                <SelectItem value="CAD">🇨🇦 Canadian Dollar (CAD)</SelectItem>
+                {enabledFiats.map(f => (
+                  <SelectItem key={f.code} value={f.code}>
+                    {f.flag} {f.name} ({f.code}){f.region ? ` - ${f.region}` : ''}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
-          <div>
-            <Label htmlFor="fiatAmount">Total Amount ({fiatCurrency})</Label>
-            <Input
-              id="fiatAmount"
-              type="number"
-              step="0.01"
-              value={fiatAmount}
-              onChange={e => setFiatAmount(e.target.value)}
-              placeholder="Amount"
-              className="placeholder:text-gray-500 placeholder:opacity-50"
-            />
+          {!isFloating && (
+            <div>
+              <Label htmlFor="fiatAmount">Total Amount ({getDisplayUnit(fiatCurrency).code})</Label>
+              <AmountInput
+                id="fiatAmount"
+                value={fiatAmount}
+                onChange={setFiatAmount}
+                decimals={getDisplayUnit(fiatCurrency).decimals}
+                placeholder="Amount"
+                className="placeholder:text-gray-500 placeholder:opacity-50"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Pricing Mode */}
+        <div>
+          <Label>Pricing</Label>
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <Button
+              type="button"
+              variant={priceType === 'fixed' ? 'default' : 'outline'}
+              onClick={() => setPriceType('fixed')}
+            >
+              Fixed
+            </Button>
+            <Button
+              type="button"
+              variant={priceType === 'floating' ? 'default' : 'outline'}
+              onClick={() => setPriceType('floating')}
+            >
+              Floating
+            </Button>
           </div>
+          <p className="text-xs text-gray-400 mt-1">
+            {isFloating
+              ? 'Your price follows the market. It is locked when a trade starts.'
+              : 'Your price stays the same until you edit the ad'}
+          </p>
         </div>
 
+        {isFloating && (
+          <div className="space-y-4 p-4 border border-gray-700 rounded-lg">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">Reference price</span>
+              <span className="text-white">
+                {referencePrice
+                  ? formatPrice(referencePrice.price, fiatCurrency, token)
+                  : 'Unavailable'}
+              </span>
+            </div>
+            <div>
+              <Label htmlFor="marginPercent">Margin (%)</Label>
+              <Input
+                id="marginPercent"
+                type="number"
+                step="0.1"
+                value={marginPercent}
+                onChange={e => setMarginPercent(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="floorPrice">Floor price (optional)</Label>
+                <Input
+                  id="floorPrice"
+                  type="number"
+                  step="0.01"
+                  value={floorPrice}
+                  onChange={e => setFloorPrice(e.target.value)}
+                  placeholder="No floor"
+                  className="placeholder:text-gray-500 placeholder:opacity-50"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ceilingPrice">Ceiling price (optional)</Label>
+                <Input
+                  id="ceilingPrice"
+                  type="number"
+                  step="0.01"
+                  value={ceilingPrice}
+                  onChange={e => setCeilingPrice(e.target.value)}
+                  placeholder="No ceiling"
+                  className="placeholder:text-gray-500 placeholder:opacity-50"
+                />
+              </div>
+            </div>
+            {pricingError && <p className="text-xs text-red-400">{pricingError}</p>}
+            {!referencePrice && (
+              <p className="text-xs text-yellow-400">
+                No market price for {token}/{fiatCurrency} yet. Use a fixed price instead.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Price Display */}
-        {amountCrypto && fiatAmount && (
+        {(isFloating ? floatingPrice !== null : amountCrypto && fiatAmount) && (
           <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
-            <p className="text-sm text-gray-400">Price per {token}</p>
+            <p className="text-sm text-gray-400">
+              Price per {token}
+              {isFloating && ` (reference ${formatMargin(floatingPricing.marginPercent)})`}
+            </p>
             <p className="text-2xl font-bold text-green-400">
-              {pricePerUnit} {fiatCurrency}
+              {formatPrice(pricePerUnit, fiatCurrency, token)}
             </p>
           </div>
         )}
 
-        {/* Payment Method */}
-        <div>
-          <Label htmlFor="paymentMethod">Payment Method</Label>
-          <Select onValueChange={handlePaymentMethodChange}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select payment method..." />
-            </SelectTrigger>
-            <SelectContent>
-              {paymentMethods.map(method => (
-                <SelectItem key={method.id} value={method.id}>
-                  {method.method_name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+        <PriceDeviationWarning token={token} fiat={fiatCurrency} price={pricePerUnit} />
 
-        {/* Dynamic Payment Details Fields */}
-        {selectedPaymentMethod && Object.keys(selectedPaymentMethod.fields).length > 0 && (
-          <div className="space-y-4 p-4 border border-gray-700 rounded-lg">
-            <h3 className="font-semibold text-white">Payment Details</h3>
-            {Object.entries(selectedPaymentMethod.fields).map(([field, placeholder]) => (
-              <div key={field}>
-                <Label htmlFor={field}>
-                  {field.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                </Label>
-                <Input
-                  id={field}
-                  value={paymentDetails[field] || ''}
-                  onChange={(e) => handlePaymentDetailChange(field, e.target.value)}
-                  placeholder={placeholder}
-                  className="placeholder:text-gray-500 placeholder:opacity-50"
+        {/* Payment Methods */}
+        <div>
+          <Label>Payment Methods</Label>
+          <p className="text-xs text-gray-400 mt-1">
+            Select every method you accept. The buyer picks one when starting a trade.
+          </p>
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            {paymentMethods.map(method => (
+              <div key={method.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`pm-${method.id}`}
+                  checked={selectedPaymentMethods.some(m => m.id === method.id)}
+                  onCheckedChange={(checked) => handlePaymentMethodToggle(method, checked === true)}
                 />
+                <label htmlFor={`pm-${method.id}`} className="text-sm cursor-pointer">
+                  {method.method_name}
+                </label>
               </div>
             ))}
           </div>
-        )}
+        </div>
+
+        {/* Dynamic Payment Details Fields, one block per selected method */}
+        {selectedPaymentMethods
+          .filter(method => Object.keys(method.fields).length > 0)
+          .map(method => (
+            <div key={method.id} className="space-y-4 p-4 border border-gray-700 rounded-lg">
+              <h3 className="font-semibold text-white">{method.method_name} Details</h3>
+              {Object.entries(method.fields).map(([field, placeholder]) => (
+                <div key={field}>
+                  <Label htmlFor={`${method.id}-${field}`}>
+                    {formatPaymentFieldLabel(field)}
+                  </Label>
+                  <Input
+                    id={`${method.id}-${field}`}
+                    value={paymentDetails[method.id]?.[field] || ''}
+                    onChange={(e) => handlePaymentDetailChange(method.id, field, e.target.value)}
+                    placeholder={placeholder}
+                    className="placeholder:text-gray-500 placeholder:opacity-50"
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
 
         {/* Order Limits */}
         <div className="grid grid-cols-2 gap-4">
           <div>
             <Label htmlFor="minOrder">Min Order (optional)</Label>
-            <Input
+            <AmountInput
               id="minOrder"
-              type="number"
-              step="0.01"
               value={minOrderAmount}
-              onChange={e => setMinOrderAmount(e.target.value)}
+              onChange={setMinOrderAmount}
+              decimals={tokenDecimals}
+              max={isZero(cryptoValue) ? null : cryptoValue}
               placeholder="Minimum amount (optional)"
               className="placeholder:text-gray-500 placeholder:opacity-50"
             />
           </div>
           <div>
             <Label htmlFor="maxOrder">Max Order (optional)</Label>
-            <Input
+            <AmountInput
               id="maxOrder"
-              type="number"
-              step="0.01"
               value={maxOrderAmount}
-              onChange={e => setMaxOrderAmount(e.target.value)}
+              onChange={setMaxOrderAmount}
+              decimals={tokenDecimals}
+              min={minOrderAmount ? amountToDecimal(minOrderAmount) : null}
+              max={isZero(cryptoValue) ? null : cryptoValue}
               placeholder="Maximum amount (optional)"
               className="placeholder:text-gray-500 placeholder:opacity-50"
             />
@@ -327,7 +450,7 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
         <Button 
           onClick={handleCreateAd} 
           className="w-full"
-          disabled={loading}
+          disabled={loading || (isFloating && floatingPrice === null)}
         >
           {loading ? (
             <>
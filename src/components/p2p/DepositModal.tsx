@@ -36,6 +36,12 @@ import {
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
 import { getPlatformWalletAddress, type CryptoToken } from '@/lib/p2p-fiat';
+import { useAssets } from '@/hooks/use-assets';
+import { getTokenInfo } from '@/lib/assets';
+import { amountToDecimal } from '@/lib/amount-input';
+import { compareCrypto, formatCrypto, roundCrypto } from '@/lib/money';
+import { decimalToString } from '@/lib/decimal';
+import { AmountInput } from './AmountInput';
 
 interface DepositModalProps {
   isOpen: boolean;
@@ -46,6 +52,7 @@ interface DepositModalProps {
 type DepositStep = 'info' | 'verify' | 'success';
 
 export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps) {
+  const { enabledTokens } = useAssets();
   const [step, setStep] = useState<DepositStep>('info');
   const [token, setToken] = useState<CryptoToken>('HEZ');
   const [amount, setAmount] = useState('');
@@ -97,8 +104,8 @@ export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps)
       return;
     }
 
-    const depositAmount = parseFloat(amount);
-    if (isNaN(depositAmount) || depositAmount <= 0) {
+    const depositAmount = roundCrypto(amountToDecimal(amount), token);
+    if (compareCrypto(depositAmount, 0, token) <= 0) {
       toast.error('Please enter the deposit amount');
       return;
     }
@@ -115,7 +122,7 @@ export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps)
     try {
       // Use verify-deposit-telegram for Telegram MiniApp users
       const { data, error } = await supabase.functions.invoke('verify-deposit-telegram', {
-        body: { sessionToken, txHash, token, expectedAmount: depositAmount }
+        body: { sessionToken, txHash, token, expectedAmount: decimalToString(depositAmount) }
       });
 
       if (error) throw new Error(error.message || 'Verification failed');
@@ -162,21 +169,22 @@ export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps)
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="HEZ">HEZ (Native)</SelectItem>
-                  <SelectItem value="PEZ">PEZ</SelectItem>
+                  {enabledTokens.map(t => (
+                    <SelectItem key={t.code} value={t.code}>
+                      {t.code}{t.native ? ' (Native)' : ''}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
               <Label>Amount</Label>
-              <Input
-                type="number"
+              <AmountInput
                 placeholder="0.00"
                 value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                min="0"
-                step="0.0001"
+                onChange={setAmount}
+                decimals={getTokenInfo(token).decimals}
               />
             </div>
 
@@ -213,7 +221,7 @@ export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps)
               </Button>
               <Button
                 onClick={() => setStep('verify')}
-                disabled={!amount || parseFloat(amount) <= 0}
+                disabled={compareCrypto(amountToDecimal(amount), 0, token) <= 0}
                 className="flex-1"
               >
                 I've Sent
@@ -251,7 +259,7 @@ export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps)
               </div>
               <div className="flex justify-between mt-1">
                 <span className="text-muted-foreground">Amount</span>
-                <span className="font-medium">{amount}</span>
+                <span className="font-medium">{formatCrypto(amountToDecimal(amount), token, { showCode: false })}</span>
               </div>
             </div>
 
@@ -282,7 +290,7 @@ export function DepositModal({ isOpen, onClose, onSuccess }: DepositModalProps)
             <div>
               <h3 className="text-lg font-semibold text-green-500">Deposit Successful!</h3>
               <p className="text-muted-foreground text-sm mt-1">
-                {amount} {token} added to your P2P balance.
+                {formatCrypto(amountToDecimal(amount), token)} added to your P2P balance.
               </p>
             </div>
             <Button onClick={handleClose} className="w-full">Done</Button>
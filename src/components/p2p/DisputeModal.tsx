@@ -1,5 +1,4 @@
 import React, { useState, useRef } from 'react';
-import { useTranslation } from 'react-i18next';
 import {
   Dialog,
   DialogContent,
@@ -21,13 +20,14 @@ import {
 } from '@/components/ui/select';
 import { AlertTriangle, Upload, X, FileText } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMarkTradeDisputed } from '@/hooks/use-p2p-mutations';
 import { toast } from 'sonner';
 
 interface DisputeModalProps {
   isOpen: boolean;
   onClose: () => void;
   tradeId: string;
-  counterpartyId: string;
   counterpartyWallet: string;
   isBuyer: boolean;
 }
@@ -54,12 +54,11 @@ export function DisputeModal({
   isOpen,
   onClose,
   tradeId,
-  counterpartyId,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   counterpartyWallet,
   isBuyer,
 }: DisputeModalProps) {
-  useTranslation();
+  const { user } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [reason, setReason] = useState('');
@@ -67,6 +66,7 @@ export function DisputeModal({
   const [evidenceFiles, setEvidenceFiles] = useState<EvidenceFile[]>([]);
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const markDisputed = useMarkTradeDisputed();
 
   // Filter reasons based on role
   const availableReasons = DISPUTE_REASONS.filter((r) => {
@@ -170,10 +170,9 @@ export function DisputeModal({
     setIsSubmitting(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      // Create dispute
+      // Create dispute first so a disputed trade always has a record for arbitrators
       const { data: dispute, error: disputeError } = await supabase
         .from('p2p_disputes')
         .insert({
@@ -188,6 +187,15 @@ export function DisputeModal({
 
       if (disputeError) throw disputeError;
 
+      // Move trade into dispute (validated by the trade state machine); drop the record if that fails
+      try {
+        const reasonLabel = DISPUTE_REASONS.find(r => r.value === reason)?.label ?? reason;
+        await markDisputed.mutateAsync({ tradeId, dispute: { id: dispute.id, reason: reasonLabel } });
+      } catch (error) {
+        await supabase.from('p2p_disputes').delete().eq('id', dispute.id);
+        throw error;
+      }
+
       // Upload evidence files
       if (evidenceFiles.length > 0) {
         const evidenceUrls = await uploadEvidence(dispute.id);
@@ -204,22 +212,6 @@ export function DisputeModal({
         await supabase.from('p2p_dispute_evidence').insert(evidenceRecords);
       }
 
-      // Update trade status to disputed
-      await supabase
-        .from('p2p_fiat_trades')
-        .update({ status: 'disputed' })
-        .eq('id', tradeId);
-
-      // Create notification for counterparty
-      await supabase.from('p2p_notifications').insert({
-        user_id: counterpartyId,
-        type: 'dispute_opened',
-        title: 'Dispute Opened',
-        message: `A dispute has been opened for your trade. Reason: ${reason}`,
-        reference_type: 'dispute',
-        reference_id: dispute.id,
-      });
-
       // Fetch admin user IDs and create notifications for each admin
       const { data: adminIds, error: adminError } = await supabase.rpc('get_admin_user_ids');
       if (adminError) {
@@ -0,0 +1,178 @@
+/**
+ * Edit Offer Modal - Mobile P2P
+ *
+ * Reprice or resize one of the user's own offers.
+ * Floating-price offers edit their margin and limits instead of a fixed price.
+ * Extra crypto is locked (or the excess unlocked) through the internal ledger.
+ */
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import type { P2PFiatOffer } from '@/lib/p2p-fiat';
+import { useRepriceOffer, useResizeOffer, useUpdateOfferPricing } from '@/hooks/use-p2p-mutations';
+import { validateFloatingPricing } from '@/lib/p2p-pricing';
+import { compareCrypto, formatCrypto, priceDecimals, roundCrypto, subtractCrypto } from '@/lib/money';
+import { decimalToNumber, isNegative } from '@/lib/decimal';
+import { amountToDecimal, numberToAmount } from '@/lib/amount-input';
+import { getTokenInfo } from '@/lib/assets';
+import { AmountInput } from './AmountInput';
+
+interface EditOfferModalProps {
+  offer: P2PFiatOffer | null;
+  onClose: () => void;
+}
+
+export function EditOfferModal({ offer, onClose }: EditOfferModalProps) {
+  // Fields start from the offer; MyAds remounts the modal (via `key`) for each offer it edits
+  // Amounts and prices are plain decimal strings at the asset's precision (see AmountInput)
+  const [price, setPrice] = useState(() => (offer ? numberToAmount(offer.price_per_unit, priceDecimals(offer.fiat_currency)) : ''));
+  const [amount, setAmount] = useState(() => (offer ? numberToAmount(offer.remaining_amount, getTokenInfo(offer.token).decimals) : ''));
+  const [margin, setMargin] = useState(() => (offer?.price_margin_percent ?? 0).toString());
+  const [floor, setFloor] = useState(() => (offer?.price_floor ? numberToAmount(offer.price_floor, priceDecimals(offer.fiat_currency)) : ''));
+  const [ceiling, setCeiling] = useState(() => (offer?.price_ceiling ? numberToAmount(offer.price_ceiling, priceDecimals(offer.fiat_currency)) : ''));
+  const [loading, setLoading] = useState(false);
+  const reprice = useRepriceOffer();
+  const updatePricing = useUpdateOfferPricing();
+  const resize = useResizeOffer();
+
+  if (!offer) return null;
+
+  const isFloating = offer.price_type === 'floating';
+  const pricePrecision = priceDecimals(offer.fiat_currency);
+  const newPrice = decimalToNumber(amountToDecimal(price));
+  const newAmount = roundCrypto(amountToDecimal(amount), offer.token);
+  const newPricing = {
+    marginPercent: parseFloat(margin),
+    floorPrice: floor ? decimalToNumber(amountToDecimal(floor)) : null,
+    ceilingPrice: ceiling ? decimalToNumber(amountToDecimal(ceiling)) : null
+  };
+  const pricingError = isFloating ? validateFloatingPricing(newPricing) : null;
+  const pricingChanged = isFloating && (
+    newPricing.marginPercent !== (offer.price_margin_percent ?? 0) ||
+    (newPricing.floorPrice ?? null) !== (offer.price_floor ?? null) ||
+    (newPricing.ceilingPrice ?? null) !== (offer.price_ceiling ?? null)
+  );
+  const priceChanged = !isFloating && newPrice !== offer.price_per_unit;
+  const amountChanged = compareCrypto(newAmount, offer.remaining_amount, offer.token) !== 0;
+  const amountDelta = subtractCrypto(newAmount, offer.remaining_amount, offer.token);
+  const hasAmount = compareCrypto(newAmount, 0, offer.token) > 0;
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      if (priceChanged) await reprice.mutateAsync({ offerId: offer.id, pricePerUnit: newPrice });
+      if (pricingChanged) await updatePricing.mutateAsync({ offerId: offer.id, pricing: newPricing });
+      if (amountChanged) await resize.mutateAsync({ offerId: offer.id, amount: newAmount });
+      onClose();
+    } catch {
+      // Errors are surfaced by the p2p-fiat toasts
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!offer} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Ad</DialogTitle>
+          <DialogDescription>
+            {offer.ad_type === 'buy' ? 'Buying' : 'Selling'} {offer.token} for {offer.fiat_currency}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isFloating ? (
+            <>
+              <div>
+                <Label htmlFor="edit-margin">Margin over reference price (%)</Label>
+                <Input
+                  id="edit-margin"
+                  type="number"
+                  step="0.1"
+                  value={margin}
+                  onChange={(e) => setMargin(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="edit-floor">Floor ({offer.fiat_currency})</Label>
+                  <AmountInput
+                    id="edit-floor"
+                    value={floor}
+                    onChange={setFloor}
+                    decimals={pricePrecision}
+                    placeholder="No floor"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-ceiling">Ceiling ({offer.fiat_currency})</Label>
+                  <AmountInput
+                    id="edit-ceiling"
+                    value={ceiling}
+                    onChange={setCeiling}
+                    decimals={pricePrecision}
+                    placeholder="No ceiling"
+                  />
+                </div>
+              </div>
+              {pricingError && <p className="text-xs text-red-400">{pricingError}</p>}
+            </>
+          ) : (
+            <div>
+              <Label htmlFor="edit-price">Price per {offer.token} ({offer.fiat_currency})</Label>
+              <AmountInput
+                id="edit-price"
+                value={price}
+                onChange={setPrice}
+                decimals={pricePrecision}
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="edit-amount">Available amount ({offer.token})</Label>
+            <AmountInput
+              id="edit-amount"
+              value={amount}
+              onChange={setAmount}
+              decimals={getTokenInfo(offer.token).decimals}
+            />
+            {offer.ad_type !== 'buy' && amountChanged && hasAmount && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {!isNegative(amountDelta)
+                  ? `${formatCrypto(amountDelta, offer.token)} will be locked from your available balance`
+                  : `${formatCrypto(subtractCrypto(0, amountDelta, offer.token), offer.token)} will be returned to your available balance`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              loading || newPrice <= 0 || !hasAmount || !!pricingError ||
+              (!priceChanged && !pricingChanged && !amountChanged)
+            }
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,11 +2,14 @@
  * Express Mode Component - OKX-Style Quick Trading
  *
  * Express mode allows users to quickly buy/sell crypto at the best available rate
- * without manually selecting an offer. The system automatically matches with
- * the best available merchant.
+ * without manually selecting an offer. The order is routed across the best eligible
+ * merchants (see express-routing) and opened as one grouped order.
+ *
+ * Before executing, the user takes a quote that holds the rate for a short
+ * countdown. Execution is refused if the quoted offers changed in the meantime.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,125 +17,164 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Zap, ArrowRight, Shield, Clock, Star, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
+import { Zap, ArrowRight, Shield, Layers, AlertCircle, CheckCircle2, RefreshCw, Timer } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import type { CryptoToken, FiatCurrency } from '@/lib/p2p-fiat';
-
-interface BestOffer {
-  id: string;
-  seller_id: string;
-  price_per_unit: number;
-  remaining_amount: number;
-  payment_method_name: string;
-  seller_reputation: number;
-  seller_completed_trades: number;
-  time_limit_minutes: number;
-}
+import { useCountdown, formatCountdown } from '@/hooks/use-countdown';
+import { useAssets } from '@/hooks/use-assets';
+import { getTokenInfo } from '@/lib/assets';
+import { amountToDecimal, numberToAmount } from '@/lib/amount-input';
+import { decimalToString, isZero } from '@/lib/decimal';
+import { fromDisplayAmount, getDisplayUnit } from '@/lib/fiat-display';
+import { compareCrypto, formatCrypto, formatFiat, formatPrice } from '@/lib/money';
+import { PriceDeviationWarning } from './PriceDeviationWarning';
+import { AmountInput } from './AmountInput';
+import { ExpressSellGuide } from './ExpressSellGuide';
+import {
+  formatPaymentFieldLabel,
+  getExpressOffers,
+  getTakerProfile,
+  validatePaymentDetails,
+  type CryptoToken,
+  type FiatCurrency
+} from '@/lib/p2p-fiat';
+import { useInternalBalance, usePaymentMethods } from '@/hooks/use-p2p-queries';
+import { useExecuteExpressOrder } from '@/hooks/use-p2p-mutations';
+import {
+  buildFillPlan,
+  createQuote,
+  type ExpressQuote,
+  type FillPlan,
+  type FillRequest,
+  type RoutableOffer,
+  type TakerProfile
+} from '@/lib/express-routing';
 
 interface ExpressModeProps {
-  onTradeStarted?: (tradeId: string) => void;
+  onOrderStarted?: (tradeIds: string[]) => void;
 }
 
-const SUPPORTED_TOKENS: CryptoToken[] = ['HEZ', 'PEZ'];
-
-// All supported fiat currencies including Kurdish Diaspora countries
-const SUPPORTED_FIATS: { code: FiatCurrency; name: string; symbol: string; region: string }[] = [
-  // Primary regions (Kurdistan & neighboring)
-  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', region: 'Bakur' },
-  { code: 'IQD', name: 'Iraqi Dinar', symbol: 'د.ع', region: 'Başûr' },
-  { code: 'IRR', name: 'Iranian Rial', symbol: '﷼', region: 'Rojhilat' },
-  // Eurozone diaspora
-  { code: 'EUR', name: 'Euro', symbol: '€', region: 'EU' },
-  // Other diaspora regions
-  { code: 'USD', name: 'US Dollar', symbol: '$', region: 'USA' },
-  { code: 'GBP', name: 'British Pound', symbol: '£', region: 'UK' },
-  { code: 'SEK', name: 'Swedish Krona', symbol: 'kr', region: 'Sweden' },
-  { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr.', region: 'Switzerland' },
-  { code: 'NOK', name: 'Norwegian Krone', symbol: 'kr', region: 'Norway' },
-  { code: 'DKK', name: 'Danish Krone', symbol: 'kr', region: 'Denmark' },
-  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', region: 'Australia' },
-  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', region: 'Canada' },
-];
-
-export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
+// Stable empty list while the offers for the current pair load
+const NO_OFFERS: RoutableOffer[] = [];
+
+export function ExpressMode({ onOrderStarted }: ExpressModeProps) {
   const [mode, setMode] = useState<'buy' | 'sell'>('buy');
   const [token, setToken] = useState<CryptoToken>('HEZ');
   const [fiat, setFiat] = useState<FiatCurrency>('TRY');
   const [amount, setAmount] = useState<string>('');
   const [inputType, setInputType] = useState<'crypto' | 'fiat'>('fiat');
-  const [bestOffer, setBestOffer] = useState<BestOffer | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [preferredMethod, setPreferredMethod] = useState<string>('any');
+  const [loadedOffers, setLoadedOffers] = useState<{ key: string; offers: RoutableOffer[] } | null>(null);
+  const [taker, setTaker] = useState<TakerProfile | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [quoted, setQuoted] = useState<{ request: FillRequest; quote: ExpressQuote } | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+
+  // Sell side: crypto comes from the internal balance and buyers pay to the user's details
+  const [paymentDetails, setPaymentDetails] = useState<Record<string, string>>({});
+  const [placedSellOrder, setPlacedSellOrder] = useState<{ plan: FillPlan; tradeIds: string[] } | null>(null);
 
   const { user } = useAuth();
+  const { data: paymentMethods = [] } = usePaymentMethods(fiat);
+  const { data: sellBalance } = useInternalBalance(token, mode === 'sell' && !!user);
+  const availableBalance = mode === 'sell' && sellBalance !== undefined ? sellBalance?.available_balance ?? 0 : null;
+  const executeOrder = useExecuteExpressOrder();
+  const { enabledFiats, enabledTokens } = useAssets();
+  const isSelling = mode === 'sell';
 
-  // Calculate conversion
-  const fiatSymbol = SUPPORTED_FIATS.find(f => f.code === fiat)?.symbol || '';
-  const cryptoAmount = inputType === 'crypto'
-    ? parseFloat(amount) || 0
-    : bestOffer ? (parseFloat(amount) || 0) / bestOffer.price_per_unit : 0;
-  const fiatAmount = inputType === 'fiat'
-    ? parseFloat(amount) || 0
-    : bestOffer ? (parseFloat(amount) || 0) * bestOffer.price_per_unit : 0;
+  // Fiat is entered in the user's display unit (toman for some IRR users) and routed in base units
+  const fiatUnit = getDisplayUnit(fiat);
+  const tokenDecimals = getTokenInfo(token).decimals;
+  // Kept as a string so the memoized request only changes with the value
+  const requestedAmount = decimalToString(inputType === 'fiat'
+    ? fromDisplayAmount(amountToDecimal(amount), fiat)
+    : amountToDecimal(amount));
+  const hasRequest = !isZero(amountToDecimal(requestedAmount));
 
-  // Fetch best offer when parameters change
+  // Eligibility depends on the user's reputation
   useEffect(() => {
-    const fetchBestOffer = async () => {
-      if (!amount || parseFloat(amount) <= 0) {
-        setBestOffer(null);
-        return;
-      }
+    if (!user) return;
+    getTakerProfile().then(setTaker);
+  }, [user]);
 
-      setIsLoading(true);
-      try {
-        // Get best offer based on mode
-        const { data, error } = await supabase
-          .from('p2p_fiat_offers')
-          .select(`
-            id,
-            seller_id,
-            price_per_unit,
-            remaining_amount,
-            time_limit_minutes,
-            payment_methods!inner(method_name),
-            profiles!p2p_fiat_offers_seller_id_fkey(display_name),
-            p2p_reputation!p2p_fiat_offers_seller_id_fkey(reputation_score, completed_trades)
-          `)
-          .eq('token', token)
-          .eq('fiat_currency', fiat)
-          .eq('status', 'open')
-          .gt('remaining_amount', 0)
-          .order('price_per_unit', { ascending: mode === 'buy' })
-          .limit(1)
-          .single();
-
-        if (error) {
-          setBestOffer(null);
-        } else if (data) {
-          setBestOffer({
-            id: data.id,
-            seller_id: data.seller_id,
-            price_per_unit: data.price_per_unit,
-            remaining_amount: data.remaining_amount,
-            payment_method_name: (data.payment_methods as { method_name?: string })?.method_name || 'Bank Transfer',
-            seller_reputation: (data.p2p_reputation as { reputation_score?: number })?.reputation_score || 0,
-            seller_completed_trades: (data.p2p_reputation as { completed_trades?: number })?.completed_trades || 0,
-            time_limit_minutes: data.time_limit_minutes,
-          });
-        }
-      } catch (err) {
-        console.error('Fetch best offer error:', err);
-        setBestOffer(null);
-      } finally {
-        setIsLoading(false);
-      }
+  // Load routable offers when the pair or side changes; until then there are none to route
+  const offersKey = `${mode}:${token}:${fiat}`;
+  const isLoading = loadedOffers?.key !== offersKey;
+  const offers = loadedOffers?.key === offersKey ? loadedOffers.offers : NO_OFFERS;
+
+  useEffect(() => {
+    let cancelled = false;
+    getExpressOffers(token, fiat, mode).then((data) => {
+      if (!cancelled) setLoadedOffers({ key: offersKey, offers: data });
+    });
+    return () => {
+      cancelled = true;
     };
+  }, [token, fiat, mode, offersKey]);
+
+  const fillRequest = useMemo<FillRequest>(() => ({
+    side: mode,
+    amount: requestedAmount,
+    unit: inputType,
+    paymentMethodIds: preferredMethod === 'any' ? [] : [preferredMethod],
+    maxCryptoAmount: isSelling ? availableBalance ?? 0 : undefined,
+    token,
+    fiat
+  }), [mode, requestedAmount, inputType, preferredMethod, isSelling, availableBalance, token, fiat]);
+
+  // Route the order across the best eligible offers (indicative until quoted)
+  const estimate = useMemo(() => {
+    if (!taker || !hasRequest) return null;
+    return buildFillPlan(offers, taker, fillRequest);
+  }, [offers, taker, hasRequest, fillRequest]);
+
+  // A quote only holds for the request it was made for
+  const quote = quoted?.request === fillRequest ? quoted.quote : null;
 
-    const debounce = setTimeout(fetchBestOffer, 300);
-    return () => clearTimeout(debounce);
-  }, [amount, token, fiat, mode]);
+  const quoteRemaining = useCountdown(quote?.expiresAt);
+  const quoteExpired = quoteRemaining === 0;
+
+  const plan = quote?.plan ?? estimate;
+  const hasPlan = !!plan && plan.legs.length > 0;
+  const methodName = (id: string) => paymentMethods.find(m => m.id === id)?.method_name || 'Bank Transfer';
+
+  // Sellers must say how they get paid; every leg then uses that method
+  const sellMethod = isSelling ? paymentMethods.find(m => m.id === preferredMethod) ?? null : null;
+  const detailsValidation = sellMethod
+    ? validatePaymentDetails(paymentDetails, sellMethod.validation_rules)
+    : { valid: !isSelling, errors: {} as Record<string, string> };
+
+  // Payment methods differ per currency
+  const selectFiat = (next: FiatCurrency) => {
+    setFiat(next);
+    setPreferredMethod('any');
+  };
+
+  const selectPreferredMethod = (methodId: string) => {
+    setPreferredMethod(methodId);
+    const method = paymentMethods.find(m => m.id === methodId);
+    setPaymentDetails(method ? Object.fromEntries(Object.keys(method.fields).map(field => [field, ''])) : {});
+  };
+
+  // Fetch the current offers and hold the resulting plan as a quote
+  const requestQuote = async () => {
+    if (!taker) return;
+
+    setIsQuoting(true);
+    try {
+      const fresh = await getExpressOffers(token, fiat, mode);
+      setLoadedOffers({ key: offersKey, offers: fresh });
+      const fresherPlan = buildFillPlan(fresh, taker, fillRequest);
+      if (fresherPlan.legs.length === 0) {
+        setQuoted(null);
+        toast.error('No offers available');
+        return;
+      }
+      setQuoted({ request: fillRequest, quote: createQuote(fresherPlan) });
+    } finally {
+      setIsQuoting(false);
+    }
+  };
 
   // Handle express trade
   const handleExpressTrade = async () => {
@@ -141,44 +183,58 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
       return;
     }
 
-    if (!bestOffer) {
-      toast.error('No offers available');
+    if (!quote || quoteExpired) {
+      toast.error('Get a new quote first');
       return;
     }
 
-    if (cryptoAmount > bestOffer.remaining_amount) {
-      toast.error(`Maximum available: ${bestOffer.remaining_amount} ${token}`);
+    if (isSelling && !detailsValidation.valid) {
+      toast.error('Please check your payment details');
       return;
     }
 
     setIsProcessing(true);
     try {
-      // Accept the best offer
-      const { data: result, error } = await supabase.rpc('accept_p2p_offer', {
-        p_offer_id: bestOffer.id,
-        p_buyer_id: user.id,
-        p_buyer_wallet: '', // Will be set from user profile
-        p_amount: cryptoAmount
+      const result = await executeOrder.mutateAsync({
+        token,
+        fiat,
+        quote,
+        takerWallet: user.wallet_address || '',
+        paymentDetails: isSelling ? paymentDetails : undefined
       });
 
-      if (error) throw error;
-
-      const response = typeof result === 'string' ? JSON.parse(result) : result;
-
-      if (!response.success) {
-        throw new Error(response.error || 'Failed to start trade');
+      if (isSelling) {
+        setPlacedSellOrder({ plan: quote.plan, tradeIds: result.tradeIds });
+      } else {
+        onOrderStarted?.(result.tradeIds);
       }
-
-      toast.success('Express trade started!');
-      onTradeStarted?.(response.trade_id);
     } catch (err) {
-      console.error('Express trade error:', err);
-      toast.error(err instanceof Error ? err.message : 'Failed to start trade');
+      if (import.meta.env.DEV) console.error('Express trade error:', err);
+      // A rejected quote can't be retried as is
+      setQuoted(null);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  if (placedSellOrder) {
+    return (
+      <ExpressSellGuide
+        token={token}
+        fiat={fiat}
+        cryptoAmount={placedSellOrder.plan.cryptoAmount}
+        fiatAmount={placedSellOrder.plan.fiatAmount}
+        paymentMethodName={methodName(preferredMethod)}
+        tradeCount={placedSellOrder.tradeIds.length}
+        onViewTrades={() => onOrderStarted?.(placedSellOrder.tradeIds)}
+        onDone={() => {
+          setPlacedSellOrder(null);
+          setAmount('');
+        }}
+      />
+    );
+  }
+
   return (
     <Card className="bg-gradient-to-br from-yellow-500/10 to-orange-500/10 border-yellow-500/30">
       <CardHeader className="pb-4">
@@ -219,7 +275,7 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {SUPPORTED_TOKENS.map(t => (
+                {enabledTokens.map(({ code: t }) => (
                   <SelectItem key={t} value={t}>{t}</SelectItem>
                 ))}
               </SelectContent>
@@ -227,12 +283,12 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
           </div>
           <div>
             <Label className="text-gray-400 text-xs">Currency</Label>
-            <Select value={fiat} onValueChange={(v) => setFiat(v as FiatCurrency)}>
+            <Select value={fiat} onValueChange={(v) => selectFiat(v as FiatCurrency)}>
               <SelectTrigger className="bg-gray-800 border-gray-700">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {SUPPORTED_FIATS.map(f => (
+                {enabledFiats.map(f => (
                   <SelectItem key={f.code} value={f.code}>
                     {f.symbol} {f.code}
                   </SelectItem>
@@ -246,7 +302,7 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
         <div>
           <div className="flex items-center justify-between mb-1">
             <Label className="text-gray-400 text-xs">
-              {inputType === 'fiat' ? `Amount (${fiat})` : `Amount (${token})`}
+              {inputType === 'fiat' ? `Amount (${fiatUnit.code})` : `Amount (${token})`}
             </Label>
             <Button
               variant="ghost"
@@ -254,30 +310,110 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
               className="text-xs text-yellow-400 h-auto p-0"
               onClick={() => setInputType(inputType === 'fiat' ? 'crypto' : 'fiat')}
             >
-              Switch to {inputType === 'fiat' ? token : fiat}
+              Switch to {inputType === 'fiat' ? token : fiatUnit.code}
             </Button>
           </div>
           <div className="relative">
-            <Input
-              type="number"
+            <AmountInput
               placeholder="0.00"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
+              onChange={setAmount}
+              decimals={inputType === 'fiat' ? fiatUnit.decimals : tokenDecimals}
+              max={isSelling && inputType === 'crypto' ? availableBalance : null}
               className="bg-gray-800 border-gray-700 text-lg pr-16"
             />
             <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">
-              {inputType === 'fiat' ? fiatSymbol : token}
+              {inputType === 'fiat' ? fiatUnit.symbol || fiatUnit.code : token}
             </span>
           </div>
+          {isSelling && availableBalance !== null && (
+            <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+              <span>Available: {availableBalance.toLocaleString(undefined, { maximumFractionDigits: 6 })} {token}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs text-yellow-400 h-auto p-0"
+                onClick={() => {
+                  setInputType('crypto');
+                  setAmount(numberToAmount(availableBalance, tokenDecimals));
+                }}
+              >
+                Max
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Payment Preference */}
+        <div>
+          <Label className="text-gray-400 text-xs">
+            {isSelling ? 'Receive payment via' : 'Payment method'}
+          </Label>
+          <Select value={preferredMethod} onValueChange={selectPreferredMethod}>
+            <SelectTrigger className="bg-gray-800 border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">{isSelling ? 'Select a method...' : 'Any method'}</SelectItem>
+              {paymentMethods.map(method => (
+                <SelectItem key={method.id} value={method.id}>{method.method_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
+        {/* Seller Payment Details */}
+        {sellMethod && (
+          <div className="p-3 bg-gray-800/50 rounded-lg space-y-2">
+            <p className="text-xs text-gray-400">
+              Your {sellMethod.method_name} details, encrypted so only your buyers can read them
+            </p>
+            {Object.entries(sellMethod.fields).map(([field, placeholder]) => (
+              <div key={field}>
+                <Label className="text-gray-400 text-xs">{formatPaymentFieldLabel(field)}</Label>
+                <Input
+                  value={paymentDetails[field] || ''}
+                  onChange={(e) => setPaymentDetails(prev => ({ ...prev, [field]: e.target.value }))}
+                  placeholder={placeholder}
+                  className="bg-gray-800 border-gray-700"
+                />
+                {paymentDetails[field] && detailsValidation.errors[field] && (
+                  <p className="text-xs text-red-400 mt-1">{detailsValidation.errors[field]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Conversion Display */}
-        {bestOffer && parseFloat(amount) > 0 && (
+        {plan && hasPlan && (
           <div className="p-3 bg-gray-800/50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              {quote && quoteRemaining !== null ? (
+                <span className={`flex items-center gap-1 ${quoteExpired ? 'text-red-400' : 'text-yellow-400'}`}>
+                  <Timer className="w-3 h-3" />
+                  {quoteExpired ? 'Quote expired' : `Rate held for ${formatCountdown(quoteRemaining)}`}
+                </span>
+              ) : (
+                <span className="text-gray-500">Estimate, get a quote to lock the rate</span>
+              )}
+              {quote && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-yellow-400 h-auto p-0"
+                  onClick={requestQuote}
+                  disabled={isQuoting || isProcessing}
+                >
+                  <RefreshCw className={`w-3 h-3 mr-1 ${isQuoting ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              )}
+            </div>
             <div className="flex items-center justify-between text-sm">
               <span className="text-gray-400">You {mode === 'buy' ? 'pay' : 'receive'}</span>
               <span className="text-white font-medium">
-                {fiatSymbol}{fiatAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })} {fiat}
+                {formatFiat(plan.fiatAmount, fiat)}
               </span>
             </div>
             <div className="flex items-center justify-center">
@@ -286,40 +422,55 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
             <div className="flex items-center justify-between text-sm">
               <span className="text-gray-400">You {mode === 'buy' ? 'receive' : 'send'}</span>
               <span className="text-white font-medium">
-                {cryptoAmount.toLocaleString(undefined, { maximumFractionDigits: 6 })} {token}
+                {formatCrypto(plan.cryptoAmount, token)}
               </span>
             </div>
             <div className="pt-2 border-t border-gray-700 space-y-1">
               <div className="flex items-center justify-between text-xs">
-                <span className="text-gray-500">Rate</span>
+                <span className="text-gray-500">{plan.legs.length > 1 ? 'Blended rate' : 'Rate'}</span>
                 <span className="text-gray-300">
-                  1 {token} = {fiatSymbol}{bestOffer.price_per_unit.toLocaleString()}
-                </span>
-              </div>
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-gray-500">Merchant Rating</span>
-                <span className="text-yellow-400 flex items-center gap-1">
-                  <Star className="w-3 h-3" />
-                  {bestOffer.seller_reputation}% ({bestOffer.seller_completed_trades} trades)
-                </span>
-              </div>
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-gray-500">Payment</span>
-                <span className="text-gray-300">{bestOffer.payment_method_name}</span>
-              </div>
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-gray-500">Time Limit</span>
-                <span className="text-gray-300 flex items-center gap-1">
-                  <Clock className="w-3 h-3" />
-                  {bestOffer.time_limit_minutes} min
+                  1 {token} = {formatPrice(plan.blendedRate, fiat, token)}
                 </span>
               </div>
+              {plan.legs.length > 1 && (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-gray-500">Merchants</span>
+                  <span className="text-gray-300 flex items-center gap-1">
+                    <Layers className="w-3 h-3" />
+                    Split across {plan.legs.length}
+                  </span>
+                </div>
+              )}
+              {plan.legs.map(leg => (
+                <div key={leg.offerId} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-500">
+                    {formatCrypto(leg.cryptoAmount, token)} @ {formatPrice(leg.pricePerUnit, fiat, null)}
+                  </span>
+                  <span className="text-gray-300">{methodName(leg.paymentMethodId)}</span>
+                </div>
+              ))}
             </div>
           </div>
         )}
 
+        {plan && hasPlan && (
+          <PriceDeviationWarning token={token} fiat={fiat} price={plan.blendedRate} />
+        )}
+
+        {/* Partial Liquidity Warning */}
+        {plan && hasPlan && !plan.complete && (
+          <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-yellow-400" />
+            <span className="text-sm text-yellow-400">
+              {isSelling && availableBalance !== null && compareCrypto(plan.cryptoAmount, availableBalance, token) >= 0
+                ? `Limited by your balance of ${availableBalance.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${token}`
+                : `Only ${formatCrypto(plan.cryptoAmount, token)} ${isSelling ? 'wanted by' : 'available from'} eligible merchants`}
+            </span>
+          </div>
+        )}
+
         {/* No Offers Warning */}
-        {!bestOffer && parseFloat(amount) > 0 && !isLoading && (
+        {hasRequest && !hasPlan && !isLoading && (
           <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2">
             <AlertCircle className="w-4 h-4 text-red-400" />
             <span className="text-sm text-red-400">
@@ -328,22 +479,40 @@ export function ExpressMode({ onTradeStarted }: ExpressModeProps) {
           </div>
         )}
 
-        {/* Express Trade Button */}
-        <Button
-          className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-semibold"
-          size="lg"
-          onClick={handleExpressTrade}
-          disabled={!bestOffer || isLoading || isProcessing || !user}
-        >
-          {isProcessing ? (
-            <>Processing...</>
-          ) : (
-            <>
-              <Zap className="w-4 h-4 mr-2" />
-              {mode === 'buy' ? 'Buy' : 'Sell'} {token} Instantly
-            </>
-          )}
-        </Button>
+        {/* Quote / Express Trade Button */}
+        {quote && !quoteExpired ? (
+          <Button
+            className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-semibold"
+            size="lg"
+            onClick={handleExpressTrade}
+            disabled={isProcessing || isQuoting || !user || !detailsValidation.valid}
+          >
+            {isProcessing ? (
+              <>Processing...</>
+            ) : (
+              <>
+                <Zap className="w-4 h-4 mr-2" />
+                {mode === 'buy' ? 'Buy' : 'Sell'} {token} Instantly
+              </>
+            )}
+          </Button>
+        ) : (
+          <Button
+            className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-semibold"
+            size="lg"
+            onClick={requestQuote}
+            disabled={!hasPlan || isLoading || isQuoting || !user || !taker || !detailsValidation.valid}
+          >
+            {isQuoting ? (
+              <>Getting quote...</>
+            ) : (
+              <>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                {quote ? 'Refresh Quote' : 'Get Quote'}
+              </>
+            )}
+          </Button>
+        )}
 
         {/* Trust Indicators */}
         <div className="flex items-center justify-center gap-4 text-xs text-gray-500">
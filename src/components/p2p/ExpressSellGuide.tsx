@@ -0,0 +1,86 @@
+/**
+ * Express Sell Guide
+ *
+ * Shown after an Express sell order is placed: walks the seller through
+ * receiving fiat from each buyer and releasing the escrowed crypto.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Lock, Banknote, ShieldCheck } from 'lucide-react';
+import type { CryptoToken, FiatCurrency } from '@/lib/p2p-fiat';
+import { formatCrypto, formatFiat } from '@/lib/money';
+import type { DecimalInput } from '@/lib/decimal';
+
+interface ExpressSellGuideProps {
+  token: CryptoToken;
+  fiat: FiatCurrency;
+  cryptoAmount: DecimalInput;
+  fiatAmount: DecimalInput;
+  paymentMethodName: string;
+  tradeCount: number;
+  onViewTrades: () => void;
+  onDone: () => void;
+}
+
+export function ExpressSellGuide({
+  token,
+  fiat,
+  cryptoAmount,
+  fiatAmount,
+  paymentMethodName,
+  tradeCount,
+  onViewTrades,
+  onDone
+}: ExpressSellGuideProps) {
+  const steps = [
+    {
+      icon: Lock,
+      title: `${formatCrypto(cryptoAmount, token)} locked in escrow`,
+      description: 'Your crypto is held safely until you release it.'
+    },
+    {
+      icon: Banknote,
+      title: `Receive ${formatFiat(fiatAmount, fiat)} via ${paymentMethodName}`,
+      description: tradeCount > 1
+        ? `${tradeCount} buyers will each pay their part and mark their trade as paid.`
+        : 'The buyer will pay you and mark the trade as paid.'
+    },
+    {
+      icon: ShieldCheck,
+      title: 'Confirm receipt to release',
+      description: 'Check your account first. Never release crypto before the money has arrived.'
+    }
+  ];
+
+  return (
+    <Card className="bg-gradient-to-br from-red-500/10 to-orange-500/10 border-red-500/30">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg text-white">Sell order placed</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="space-y-3">
+          {steps.map(({ icon: Icon, title, description }, index) => (
+            <li key={title} className="flex gap-3">
+              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-800 flex items-center justify-center">
+                <Icon className={`w-4 h-4 ${index === 0 ? 'text-green-400' : 'text-gray-400'}`} />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-white">{title}</p>
+                <p className="text-xs text-gray-400">{description}</p>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={onDone}>
+            New order
+          </Button>
+          <Button className="bg-yellow-500 hover:bg-yellow-600 text-black" onClick={onViewTrades}>
+            View {tradeCount > 1 ? 'trades' : 'trade'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
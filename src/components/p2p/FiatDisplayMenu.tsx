@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Settings2 } from 'lucide-react';
+import type { FiatDisplaySettings } from '@/hooks/use-fiat-display';
+import type { IrrUnit } from '@/lib/fiat-display';
+
+interface FiatDisplayMenuProps {
+  settings: FiatDisplaySettings;
+}
+
+/**
+ * Choose how fiat amounts are shown: rial or toman for IRR, compact large amounts
+ */
+export function FiatDisplayMenu({ settings }: FiatDisplayMenuProps) {
+  const { preferences, update } = settings;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" title="Display settings">
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Iranian rial amounts</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={preferences.irrUnit}
+          onValueChange={(value) => update({ irrUnit: value as IrrUnit })}
+        >
+          <DropdownMenuRadioItem value="rial">Rial (IRR)</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="toman">Toman (1 = 10 IRR)</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={preferences.compactLarge}
+          onCheckedChange={(checked) => update({ compactLarge: checked === true })}
+        >
+          Shorten large IRR/IQD amounts
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
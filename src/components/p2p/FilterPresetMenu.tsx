@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Plus, Star, Trash2 } from 'lucide-react';
+import type { FilterPresetsState } from '@/hooks/use-filter-presets';
+import type { P2PFilters } from './types';
+
+interface FilterPresetMenuProps {
+  filters: P2PFilters;
+  presets: FilterPresetsState;
+  onApply: (filters: P2PFilters) => void;
+}
+
+/**
+ * Switch between saved filter presets, save the current filters and pick a default
+ */
+export function FilterPresetMenu({ filters, presets, onApply }: FilterPresetMenuProps) {
+  const [showSave, setShowSave] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    presets.savePreset(name, filters);
+    setShowSave(false);
+    setName('');
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9">
+            <Bookmark className="h-4 w-4 mr-1" />
+            Presets
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          {presets.presets.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Saved presets</DropdownMenuLabel>
+              {presets.presets.map(preset => (
+                <DropdownMenuItem
+                  key={preset.id}
+                  onSelect={() => onApply(preset.filters)}
+                  className="flex items-center gap-2"
+                >
+                  <span className="flex-1 truncate">{preset.name}</span>
+                  <button
+                    title={preset.isDefault ? 'Remove as default' : 'Use as default'}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      presets.setDefaultPreset(preset.isDefault ? null : preset.id);
+                    }}
+                  >
+                    <Star className={`h-3.5 w-3.5 ${preset.isDefault ? 'fill-yellow-500 text-yellow-500' : 'text-muted-foreground'}`} />
+                  </button>
+                  <button
+                    title="Delete preset"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      presets.deletePreset(preset.id);
+                    }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onSelect={() => setShowSave(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Save current filters
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSave} onOpenChange={setShowSave}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save filter preset</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="e.g. EUR bank transfer"
+            maxLength={40}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSave(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
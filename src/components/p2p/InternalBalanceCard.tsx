@@ -1,4 +1,3 @@
-import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -11,7 +10,7 @@ import {
   Lock,
   Unlock
 } from 'lucide-react';
-import { getInternalBalances, type InternalBalance } from '@/lib/p2p-fiat';
+import { useInternalBalances } from '@/hooks/use-p2p-queries';
 
 interface InternalBalanceCardProps {
   onDeposit?: () => void;
@@ -19,29 +18,11 @@ interface InternalBalanceCardProps {
 }
 
 export function InternalBalanceCard({ onDeposit, onWithdraw }: InternalBalanceCardProps) {
-  const [balances, setBalances] = useState<InternalBalance[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Deposits, withdrawals and escrow changes invalidate the balances query
+  const { data: balances = [], isLoading, isRefetching: isRefreshing, refetch } = useInternalBalances();
 
-  const fetchBalances = async () => {
-    try {
-      const data = await getInternalBalances();
-      setBalances(data);
-    } catch (error) {
-      console.error('Failed to fetch balances:', error);
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchBalances();
-  }, []);
-
-  const handleRefresh = async () => {
-    setIsRefreshing(true);
-    await fetchBalances();
+  const handleRefresh = () => {
+    refetch();
   };
 
   const formatBalance = (value: number, decimals: number = 4) => {
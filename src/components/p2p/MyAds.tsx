@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Pause, Play, Pencil, XCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { P2PFiatOffer, OfferStatus } from '@/lib/p2p-fiat';
+import { useMyOffers } from '@/hooks/use-p2p-queries';
+import { useCloseOffer, usePauseOffer, useResumeOffer } from '@/hooks/use-p2p-mutations';
+import { formatMargin } from '@/lib/p2p-pricing';
+import { formatCrypto, formatFiat } from '@/lib/money';
+import { EditOfferModal } from './EditOfferModal';
+
+interface MyAdsProps {
+  onCreateAd?: () => void;
+}
+
+const STATUS_BADGE: Record<OfferStatus, string> = {
+  open: 'text-green-400 border-green-400',
+  paused: 'text-yellow-400 border-yellow-400',
+  locked: 'text-blue-400 border-blue-400',
+  completed: 'text-gray-400 border-gray-400',
+  cancelled: 'text-gray-400 border-gray-400'
+};
+
+export function MyAds({ onCreateAd }: MyAdsProps) {
+  const [editingOffer, setEditingOffer] = useState<P2PFiatOffer | null>(null);
+  const { data: offers = [], isLoading: loading } = useMyOffers();
+  const pause = usePauseOffer();
+  const resume = useResumeOffer();
+  const close = useCloseOffer();
+
+  // Status changes show optimistically; this only disables the offer's buttons meanwhile
+  const pendingAction = [pause, resume, close].find(action => action.isPending);
+  const busyOfferId = pendingAction?.variables ?? null;
+
+  const handleClose = (offer: P2PFiatOffer) => {
+    const message = offer.ad_type === 'buy'
+      ? 'Close this ad?'
+      : `Close this ad? ${formatCrypto(offer.remaining_amount, offer.token)} will be returned to your available balance.`;
+    if (!confirm(message)) return;
+    close.mutate(offer.id);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const activeOffers = offers.filter(o => o.status !== 'cancelled' && o.status !== 'completed');
+  const closedOffers = offers.filter(o => o.status === 'cancelled' || o.status === 'completed');
+
+  if (offers.length === 0) {
+    return (
+      <div className="text-center p-8 text-muted-foreground">
+        <p>You have no ads yet</p>
+        {onCreateAd && (
+          <Button size="sm" className="mt-4" onClick={onCreateAd}>
+            Post Ad
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const renderOffer = (offer: P2PFiatOffer) => {
+    const isBusy = busyOfferId === offer.id;
+    const isClosed = offer.status === 'cancelled' || offer.status === 'completed';
+
+    return (
+      <Card key={offer.id} className="bg-card">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">
+              {offer.ad_type === 'buy' ? 'Buy' : 'Sell'} {offer.token}
+            </span>
+            <Badge variant="outline" className={STATUS_BADGE[offer.status]}>
+              {offer.status.toUpperCase()}
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <p className="text-xs text-muted-foreground">Price</p>
+              <p className="font-medium">
+                {offer.price_type === 'floating'
+                  ? `Floating ${formatMargin(offer.price_margin_percent ?? 0)}`
+                  : formatFiat(offer.price_per_unit, offer.fiat_currency)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Available</p>
+              <p className="font-medium">{formatCrypto(offer.remaining_amount, offer.token, { showCode: false })} / {formatCrypto(offer.amount_crypto, offer.token)}</p>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Posted {formatDistanceToNow(new Date(offer.created_at), { addSuffix: true })}
+          </p>
+
+          {!isClosed && (
+            <div className="flex gap-2">
+              {offer.status === 'open' && (
+                <Button size="sm" variant="outline" className="flex-1" disabled={isBusy} onClick={() => pause.mutate(offer.id)}>
+                  <Pause className="w-3 h-3 mr-1" />
+                  Pause
+                </Button>
+              )}
+              {offer.status === 'paused' && (
+                <Button size="sm" variant="outline" className="flex-1" disabled={isBusy} onClick={() => resume.mutate(offer.id)}>
+                  <Play className="w-3 h-3 mr-1" />
+                  Resume
+                </Button>
+              )}
+              <Button size="sm" variant="outline" className="flex-1" disabled={isBusy} onClick={() => setEditingOffer(offer)}>
+                <Pencil className="w-3 h-3 mr-1" />
+                Edit
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1 text-red-400" disabled={isBusy} onClick={() => handleClose(offer)}>
+                {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <XCircle className="w-3 h-3 mr-1" />}
+                Close
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      {activeOffers.map(renderOffer)}
+
+      {closedOffers.length > 0 && (
+        <>
+          <p className="text-xs text-muted-foreground pt-2">Closed</p>
+          {closedOffers.map(renderOffer)}
+        </>
+      )}
+
+      <EditOfferModal
+        key={editingOffer?.id}
+        offer={editingOffer}
+        onClose={() => setEditingOffer(null)}
+      />
+    </div>
+  );
+}
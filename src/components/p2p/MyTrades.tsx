@@ -1,35 +1,21 @@
-import { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Clock, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
-import { getUserTrades, type P2PFiatTrade } from '@/lib/p2p-fiat';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUserTrades } from '@/hooks/use-p2p-queries';
+import { useOverdueTradeExpiry } from '@/hooks/use-p2p-mutations';
 import { formatDistanceToNow } from 'date-fns';
+import { formatCrypto, formatFiat } from '@/lib/money';
 
 interface MyTradesProps {
   onTradeSelect: (tradeId: string) => void;
 }
 
 export function MyTrades({ onTradeSelect }: MyTradesProps) {
-  const [trades, setTrades] = useState<P2PFiatTrade[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const { user } = useAuth();
-
-  useEffect(() => {
-    const fetchTrades = async () => {
-      if (!user) return;
-      setIsLoading(true);
-      try {
-        const data = await getUserTrades(user.id);
-        setTrades(data);
-      } catch (error) {
-        console.error('Fetch trades error:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    fetchTrades();
-  }, [user]);
+  // Status changes arrive over realtime and refresh this query (see useRealtimeInvalidation)
+  const { data: trades = [], isLoading } = useUserTrades(user?.id);
+  useOverdueTradeExpiry(user?.id);
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -76,16 +62,17 @@ export function MyTrades({ onTradeSelect }: MyTradesProps) {
           <CardContent className="p-4">
             <div className="flex items-center justify-between mb-2">
               <span className="font-semibold">
-                {trade.crypto_amount.toFixed(4)} HEZ
+                {formatCrypto(trade.crypto_amount, trade.token)}
               </span>
               {getStatusBadge(trade.status)}
             </div>
             <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <span>${trade.fiat_amount.toFixed(2)}</span>
+              <span>{formatFiat(trade.fiat_amount, trade.fiat_currency)}</span>
               <span>{formatDistanceToNow(new Date(trade.created_at), { addSuffix: true })}</span>
             </div>
             <div className="text-xs text-muted-foreground mt-2">
               {user?.id === trade.seller_id ? 'Selling' : 'Buying'}
+              {trade.order_group_id && ` · Express order #${trade.order_group_id.slice(0, 6)}`}
             </div>
           </CardContent>
         </Card>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -21,119 +21,37 @@ import {
   CheckCheck,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
-
-interface Notification {
-  id: string;
-  user_id: string;
-  type: string;
-  title: string;
-  message: string;
-  reference_type?: string;
-  reference_id?: string;
-  is_read: boolean;
-  created_at: string;
-}
+import { useNotifications } from '@/hooks/use-p2p-queries';
+import { useMarkAllNotificationsRead, useMarkNotificationRead } from '@/hooks/use-p2p-mutations';
+import type { P2PNotification } from '@/lib/notifications';
+import { navigate, routeForReference } from '@/lib/routes';
 
+// New notifications arrive through the realtime layer (useRealtimeInvalidation)
 export function NotificationBell() {
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
-  const [loading, setLoading] = useState(true);
   const [isOpen, setIsOpen] = useState(false);
+  const { data: notifications = [], isLoading: loading } = useNotifications(user?.id);
+  const markRead = useMarkNotificationRead(user?.id);
+  const markAllRead = useMarkAllNotificationsRead(user?.id);
+  const unreadCount = notifications.filter(n => !n.is_read).length;
 
-  const fetchNotifications = useCallback(async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('p2p_notifications')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (error) throw error;
-
-      setNotifications(data || []);
-      setUnreadCount(data?.filter(n => !n.is_read).length || 0);
-    } catch (error) {
-      console.error('Fetch notifications error:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
-  useEffect(() => {
-    fetchNotifications();
-  }, [fetchNotifications]);
-
-  useEffect(() => {
-    if (!user) return;
-
-    const channel = supabase
-      .channel(`notifications-${user.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'p2p_notifications',
-          filter: `user_id=eq.${user.id}`,
-        },
-        (payload) => {
-          const newNotif = payload.new as Notification;
-          setNotifications(prev => [newNotif, ...prev.slice(0, 19)]);
-          setUnreadCount(prev => prev + 1);
-          // Haptic feedback
-          window.Telegram?.WebApp.HapticFeedback.notificationOccurred('success');
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user]);
-
-  const markAsRead = async (notificationId: string) => {
-    try {
-      await supabase
-        .from('p2p_notifications')
-        .update({ is_read: true })
-        .eq('id', notificationId);
-
-      setNotifications(prev =>
-        prev.map(n => n.id === notificationId ? { ...n, is_read: true } : n)
-      );
-      setUnreadCount(prev => Math.max(0, prev - 1));
-    } catch (error) {
-      console.error('Mark as read error:', error);
-    }
+  const markAsRead = (notificationId: string) => {
+    markRead.mutate(notificationId);
   };
 
-  const markAllAsRead = async () => {
+  const markAllAsRead = () => {
     if (!user) return;
-
-    try {
-      await supabase
-        .from('p2p_notifications')
-        .update({ is_read: true })
-        .eq('user_id', user.id)
-        .eq('is_read', false);
-
-      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
-      setUnreadCount(0);
-    } catch (error) {
-      console.error('Mark all as read error:', error);
-    }
+    markAllRead.mutate();
   };
 
-  const handleClick = (notification: Notification) => {
+  const handleClick = (notification: P2PNotification) => {
     if (!notification.is_read) {
       markAsRead(notification.id);
     }
     setIsOpen(false);
+
+    const route = routeForReference(notification.reference_type, notification.reference_id);
+    if (route) navigate(route);
   };
 
   const getIcon = (type: string) => {
@@ -1,5 +1,4 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/lib/supabase';
+import { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,15 +22,9 @@ import {
 
 // Import types from separate file to avoid react-refresh warning
 import { type P2PFilters, DEFAULT_FILTERS } from './types';
-
-// Available fiat currencies
-const FIAT_CURRENCIES = [
-  { value: 'TRY', label: 'TRY - Turkish Lira' },
-  { value: 'EUR', label: 'EUR - Euro' },
-  { value: 'USD', label: 'USD - US Dollar' },
-  { value: 'IQD', label: 'IQD - Iraqi Dinar' },
-  { value: 'IRR', label: 'IRR - Iranian Rial' }
-];
+import { useAssets } from '@/hooks/use-assets';
+import { usePaymentMethods } from '@/hooks/use-p2p-queries';
+import type { FiatCurrency } from '@/lib/assets';
 
 // Merchant tiers
 const MERCHANT_TIERS = [
@@ -51,7 +44,8 @@ export function OrderFilters({
   variant = 'inline'
 }: OrderFiltersProps) {
   const [localFilters, setLocalFilters] = useState<P2PFilters>(filters);
-  const [paymentMethods, setPaymentMethods] = useState<{ id: string; method_name: string }[]>([]);
+  const { enabledFiats, enabledTokens } = useAssets();
+  const { data: paymentMethods = [] } = usePaymentMethods(localFilters.fiatCurrency as FiatCurrency | 'all');
   const [isOpen, setIsOpen] = useState(false);
   const [expandedSections, setExpandedSections] = useState({
     currency: true,
@@ -60,22 +54,6 @@ export function OrderFilters({
     amount: false
   });
 
-  // Fetch payment methods
-  useEffect(() => {
-    const fetchPaymentMethods = async () => {
-      const { data } = await supabase
-        .from('payment_methods')
-        .select('id, method_name')
-        .eq('is_active', true);
-
-      if (data) {
-        setPaymentMethods(data);
-      }
-    };
-
-    fetchPaymentMethods();
-  }, []);
-
   // Update local filters
   const updateFilter = <K extends keyof P2PFilters>(key: K, value: P2PFilters[K]) => {
     setLocalFilters(prev => ({ ...prev, [key]: value }));
@@ -119,7 +97,7 @@ export function OrderFilters({
       <div className="space-y-2">
         <Label>Cryptocurrency</Label>
         <div className="flex gap-2">
-          {['all', 'HEZ', 'PEZ'].map((token) => (
+          {['all', ...enabledTokens.map(t => t.code)].map((token) => (
             <Button
               key={token}
               variant={localFilters.token === token ? 'default' : 'outline'}
@@ -149,9 +127,9 @@ export function OrderFilters({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Currencies</SelectItem>
-              {FIAT_CURRENCIES.map((currency) => (
-                <SelectItem key={currency.value} value={currency.value}>
-                  {currency.label}
+              {enabledFiats.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code} - {currency.name}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -308,6 +286,8 @@ export function OrderFilters({
               <SelectItem value="price">Price</SelectItem>
               <SelectItem value="completion_rate">Completion Rate</SelectItem>
               <SelectItem value="trades">Trade Count</SelectItem>
+              <SelectItem value="release_time">Release Time</SelectItem>
+              <SelectItem value="score">Best Merchant</SelectItem>
               <SelectItem value="newest">Newest</SelectItem>
             </SelectContent>
           </Select>
@@ -405,11 +385,13 @@ export function QuickFilterBar({
   filters: P2PFilters;
   onFiltersChange: (filters: P2PFilters) => void;
 }) {
+  const { enabledFiats, enabledTokens } = useAssets();
+
   return (
     <div className="flex flex-wrap items-center gap-2">
       {/* Token quick select */}
       <div className="flex gap-1">
-        {['all', 'HEZ', 'PEZ'].map((token) => (
+        {['all', ...enabledTokens.map(t => t.code)].map((token) => (
           <Button
             key={token}
             variant={filters.token === token ? 'default' : 'outline'}
@@ -432,9 +414,9 @@ export function QuickFilterBar({
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All</SelectItem>
-          {FIAT_CURRENCIES.map((currency) => (
-            <SelectItem key={currency.value} value={currency.value}>
-              {currency.value}
+          {enabledFiats.map((currency) => (
+            <SelectItem key={currency.code} value={currency.code}>
+              {currency.code}
             </SelectItem>
           ))}
         </SelectContent>
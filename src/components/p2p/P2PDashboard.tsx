@@ -1,92 +1,126 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import {
   PlusCircle, ClipboardList, TrendingUp, CheckCircle2, Clock,
-  ArrowLeft, Zap, Blocks, Wallet, UserCheck, Store
+  ArrowLeft, Zap, Blocks, Wallet, UserCheck, Store, Megaphone, User
 } from 'lucide-react';
 import { AdList } from './AdList';
 import { CreateAd } from './CreateAd';
 import { NotificationBell } from './NotificationBell';
 import { QuickFilterBar } from './OrderFilters';
+import { FilterPresetMenu } from './FilterPresetMenu';
+import { FiatDisplayMenu } from './FiatDisplayMenu';
 import { InternalBalanceCard } from './InternalBalanceCard';
 import { DepositModal } from './DepositModal';
 import { WithdrawModal } from './WithdrawModal';
 import { ExpressMode } from './ExpressMode';
 import { BlockTrade } from './BlockTrade';
 import { MyTrades } from './MyTrades';
+import { MyAds } from './MyAds';
 import { TradeDetail } from './TradeDetail';
-import { DEFAULT_FILTERS, type P2PFilters } from './types';
+import { AdDetail } from './AdDetail';
+import { MerchantApplication } from './MerchantApplication';
+import { ProfileView } from './ProfileView';
+import type { P2PFilters } from './types';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import { usePresenceTracking } from '@/hooks/use-presence';
+import { useRealtimeInvalidation } from '@/hooks/use-realtime-invalidation';
+import { useTradeStats } from '@/hooks/use-p2p-queries';
+import { useFilterPresets } from '@/hooks/use-filter-presets';
+import { useFiatDisplaySettings } from '@/hooks/use-fiat-display';
+import { useRoute, useTelegramBackButton } from '@/hooks/use-route';
+import { decodeFilters, hasFilterParams, mergeFilterParams } from '@/lib/filter-params';
+import { formatFiat } from '@/lib/money';
+import { p2pKeys } from '@/lib/query-keys';
+import { goBack, navigate, type DashboardTab } from '@/lib/routes';
+import type { TradeStats } from '@/lib/p2p-fiat';
 
-type View = 'main' | 'create-ad' | 'my-trades' | 'trade-detail';
+const EMPTY_STATS: TradeStats = { activeTrades: 0, completedTrades: 0, volume: [] };
 
-interface UserStats {
-  activeTrades: number;
-  completedTrades: number;
-  totalVolume: number;
+/**
+ * A screen below the dashboard, with a back button in its header
+ */
+function Subpage({ title, children }: { title?: string; children: ReactNode }) {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 bg-background/95 backdrop-blur border-b border-border p-4 flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={goBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        {title && <h1 className="font-semibold">{title}</h1>}
+        <div className="w-16" />
+      </header>
+      {children}
+    </div>
+  );
 }
 
 export function P2PDashboard() {
-  const [view, setView] = useState<View>('main');
-  const [selectedTradeId, setSelectedTradeId] = useState<string | null>(null);
-  const [userStats, setUserStats] = useState<UserStats>({ activeTrades: 0, completedTrades: 0, totalVolume: 0 });
-  const [filters, setFilters] = useState<P2PFilters>(DEFAULT_FILTERS);
+  // Screens live in the URL (see routes), so they can be linked, reloaded and left with back
+  const route = useRoute();
+  useTelegramBackButton(route);
+  // Filters start from the URL so shared links open the same view
+  const [filters, setFilters] = useState<P2PFilters>(() => decodeFilters(new URLSearchParams(window.location.search)));
+  const keepInitialFilters = useRef(hasFilterParams(new URLSearchParams(window.location.search)));
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
-  const [balanceRefreshKey, setBalanceRefreshKey] = useState(0);
   const { user, isLoading, error, login } = useAuth();
+  const queryClient = useQueryClient();
+  usePresenceTracking(user?.id);
+  // Realtime trade and notification events keep every query below current
+  useRealtimeInvalidation(user?.id);
+  const { data: userStats = EMPTY_STATS } = useTradeStats(user?.id);
+  const filterPresets = useFilterPresets(user?.id);
+  // Every view below re-renders with this component when the display unit changes
+  const fiatDisplay = useFiatDisplaySettings(user?.id);
 
-  const handleBalanceUpdated = () => {
-    setBalanceRefreshKey(prev => prev + 1);
-  };
-
-  const handleTradeStarted = (tradeId: string) => {
-    setSelectedTradeId(tradeId);
-    setView('trade-detail');
+  const handleFiltersChange = (next: P2PFilters) => {
+    keepInitialFilters.current = true;
+    setFilters(next);
   };
 
-  // Fetch user stats
+  // The default preset applies on load unless the URL or the user already chose filters
   useEffect(() => {
-    const fetchStats = async () => {
-      if (!user) return;
-
-      try {
-        const { count: activeCount } = await supabase
-          .from('p2p_fiat_trades')
-          .select('*', { count: 'exact', head: true })
-          .or(`seller_id.eq.${user.id},buyer_id.eq.${user.id}`)
-          .in('status', ['pending', 'payment_sent']);
+    if (filterPresets.defaultPreset && !keepInitialFilters.current) {
+      setFilters(filterPresets.defaultPreset.filters);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterPresets.defaultPreset?.id, filterPresets.synced]);
 
-        const { count: completedCount } = await supabase
-          .from('p2p_fiat_trades')
-          .select('*', { count: 'exact', head: true })
-          .or(`seller_id.eq.${user.id},buyer_id.eq.${user.id}`)
-          .eq('status', 'completed');
+  // Mirror the filters into the URL
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const nextSearch = mergeFilterParams(search, filters);
+    if (nextSearch !== search) {
+      window.history.replaceState(window.history.state, '', `${pathname}${nextSearch}${hash}`);
+    }
+  }, [filters]);
 
-        const { data: trades } = await supabase
-          .from('p2p_fiat_trades')
-          .select('fiat_amount')
-          .or(`seller_id.eq.${user.id},buyer_id.eq.${user.id}`)
-          .eq('status', 'completed');
+  const handleBalanceUpdated = () => {
+    queryClient.invalidateQueries({ queryKey: p2pKeys.balances() });
+  };
 
-        const totalVolume = trades?.reduce((sum, t) => sum + (t.fiat_amount || 0), 0) || 0;
+  const handleTradeStarted = (tradeId: string) => {
+    navigate({ name: 'trade', tradeId });
+  };
 
-        setUserStats({
-          activeTrades: activeCount || 0,
-          completedTrades: completedCount || 0,
-          totalVolume,
-        });
-      } catch (err) {
-        console.error('Fetch stats error:', err);
-      }
-    };
+  const openOffer = (offerId: string) => {
+    navigate({ name: 'ad', offerId });
+  };
 
-    fetchStats();
-  }, [user]);
+  // Express orders split across several merchants open several trades at once
+  const handleOrderStarted = (tradeIds: string[]) => {
+    if (tradeIds.length === 1) {
+      handleTradeStarted(tradeIds[0]);
+    } else {
+      navigate({ name: 'my-trades' });
+    }
+  };
 
   // Loading state
   if (isLoading) {
@@ -121,55 +155,69 @@ export function P2PDashboard() {
     );
   }
 
-  // Trade detail view
-  if (view === 'trade-detail' && selectedTradeId) {
+  if (route.name === 'trade') {
     return (
-      <div className="min-h-screen bg-background">
-        <header className="sticky top-0 bg-background/95 backdrop-blur border-b border-border p-4">
-          <Button variant="ghost" size="sm" onClick={() => setView('my-trades')}>
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back
-          </Button>
-        </header>
-        <TradeDetail tradeId={selectedTradeId} />
-      </div>
+      <Subpage>
+        <TradeDetail tradeId={route.tradeId} />
+      </Subpage>
     );
   }
 
-  // My trades view
-  if (view === 'my-trades') {
+  if (route.name === 'ad') {
     return (
-      <div className="min-h-screen bg-background">
-        <header className="sticky top-0 bg-background/95 backdrop-blur border-b border-border p-4 flex items-center justify-between">
-          <Button variant="ghost" size="sm" onClick={() => setView('main')}>
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back
-          </Button>
-          <h1 className="font-semibold">My Trades</h1>
-          <div className="w-16" />
-        </header>
-        <MyTrades onTradeSelect={(id) => {
-          setSelectedTradeId(id);
-          setView('trade-detail');
-        }} />
-      </div>
+      <Subpage title="Ad">
+        <AdDetail
+          offerId={route.offerId}
+          onTradeStarted={handleTradeStarted}
+          onManageAds={() => navigate({ name: 'my-ads' })}
+        />
+      </Subpage>
     );
   }
 
-  // Create ad view
-  if (view === 'create-ad') {
+  if (route.name === 'my-trades') {
     return (
-      <div className="min-h-screen bg-background">
-        <header className="sticky top-0 bg-background/95 backdrop-blur border-b border-border p-4 flex items-center justify-between">
-          <Button variant="ghost" size="sm" onClick={() => setView('main')}>
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back
-          </Button>
-          <h1 className="font-semibold">Create Ad</h1>
-          <div className="w-16" />
-        </header>
-        <CreateAd onAdCreated={() => setView('main')} />
-      </div>
+      <Subpage title="My Trades">
+        <MyTrades onTradeSelect={handleTradeStarted} />
+      </Subpage>
+    );
+  }
+
+  if (route.name === 'my-ads') {
+    return (
+      <Subpage title="My Ads">
+        <MyAds onCreateAd={() => navigate({ name: 'create-ad' })} />
+      </Subpage>
+    );
+  }
+
+  if (route.name === 'create-ad') {
+    return (
+      <Subpage title="Create Ad">
+        <CreateAd onAdCreated={goBack} />
+      </Subpage>
+    );
+  }
+
+  if (route.name === 'merchant') {
+    return (
+      <Subpage title="Merchant Center">
+        <div className="p-4">
+          <MerchantApplication />
+        </div>
+      </Subpage>
+    );
+  }
+
+  if (route.name === 'profile') {
+    return (
+      <Subpage title="Profile">
+        <ProfileView
+          onOpenTrades={() => navigate({ name: 'my-trades' })}
+          onOpenAds={() => navigate({ name: 'my-ads' })}
+          onOpenMerchant={() => navigate({ name: 'merchant' })}
+        />
+      </Subpage>
     );
   }
 
@@ -182,10 +230,18 @@ export function P2PDashboard() {
           <h1 className="text-xl font-bold">P2P Trading</h1>
           <div className="flex items-center gap-2">
             <NotificationBell />
+            <FiatDisplayMenu settings={fiatDisplay} />
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setView('my-trades')}
+              onClick={() => navigate({ name: 'my-ads' })}
+            >
+              <Megaphone className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ name: 'my-trades' })}
             >
               <ClipboardList className="w-4 h-4" />
               {userStats.activeTrades > 0 && (
@@ -194,6 +250,13 @@ export function P2PDashboard() {
                 </Badge>
               )}
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ name: 'profile' })}
+            >
+              <User className="w-4 h-4" />
+            </Button>
           </div>
         </div>
       </header>
@@ -201,7 +264,6 @@ export function P2PDashboard() {
       <div className="p-4 space-y-4">
         {/* Balance Card */}
         <InternalBalanceCard
-          key={balanceRefreshKey}
           onDeposit={() => setShowDepositModal(true)}
           onWithdraw={() => setShowWithdrawModal(true)}
         />
@@ -225,8 +287,15 @@ export function P2PDashboard() {
           <Card className="bg-card">
             <CardContent className="p-3 text-center">
               <TrendingUp className="w-4 h-4 text-blue-400 mx-auto mb-1" />
-              <p className="text-lg font-bold">${userStats.totalVolume > 1000 ? `${(userStats.totalVolume / 1000).toFixed(1)}K` : userStats.totalVolume}</p>
-              <p className="text-[10px] text-muted-foreground">Volume</p>
+              <p
+                className="text-lg font-bold truncate"
+                title={userStats.volume.map(v => formatFiat(v.amount, v.currency)).join('\n')}
+              >
+                {userStats.volume.length > 0 ? formatFiat(userStats.volume[0].amount, userStats.volume[0].currency, { compact: true }) : '0'}
+              </p>
+              <p className="text-[10px] text-muted-foreground">
+                Volume{userStats.volume.length > 1 && ` +${userStats.volume.length - 1} more`}
+              </p>
             </CardContent>
           </Card>
         </div>
@@ -254,7 +323,7 @@ export function P2PDashboard() {
           <Button
             size="sm"
             className="h-auto py-3 flex-col"
-            onClick={() => setView('create-ad')}
+            onClick={() => navigate({ name: 'create-ad' })}
           >
             <PlusCircle className="w-4 h-4 mb-1" />
             <span className="text-xs">Post Ad</span>
@@ -262,10 +331,21 @@ export function P2PDashboard() {
         </div>
 
         {/* Filter Bar */}
-        <QuickFilterBar filters={filters} onFiltersChange={setFilters} />
+        <div className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <QuickFilterBar filters={filters} onFiltersChange={handleFiltersChange} />
+          </div>
+          {user && (
+            <FilterPresetMenu filters={filters} presets={filterPresets} onApply={handleFiltersChange} />
+          )}
+        </div>
 
         {/* Main Tabs */}
-        <Tabs defaultValue="buy" className="w-full">
+        <Tabs
+          value={route.tab}
+          onValueChange={(tab) => navigate({ name: 'dashboard', tab: tab as DashboardTab }, { replace: true })}
+          className="w-full"
+        >
           <TabsList className="grid w-full grid-cols-4 h-auto">
             <TabsTrigger value="express" className="text-xs py-2">
               <Zap className="w-3 h-3 mr-1" />
@@ -280,15 +360,15 @@ export function P2PDashboard() {
           </TabsList>
 
           <TabsContent value="express" className="mt-4">
-            <ExpressMode onTradeStarted={handleTradeStarted} />
+            <ExpressMode onOrderStarted={handleOrderStarted} />
           </TabsContent>
 
           <TabsContent value="buy" className="mt-4">
-            <AdList type="buy" filters={filters} />
+            <AdList type="buy" filters={filters} onOfferOpen={openOffer} onTradeStarted={handleTradeStarted} />
           </TabsContent>
 
           <TabsContent value="sell" className="mt-4">
-            <AdList type="sell" filters={filters} />
+            <AdList type="sell" filters={filters} onOfferOpen={openOffer} onTradeStarted={handleTradeStarted} />
           </TabsContent>
 
           <TabsContent value="otc" className="mt-4">
@@ -0,0 +1,29 @@
+import { formatDistanceToNow } from 'date-fns';
+import { useUserPresence } from '@/hooks/use-presence';
+
+interface PresenceIndicatorProps {
+  userId: string;
+  lastSeenAt?: string | null; // Already known last-seen time, skips the lookup
+  showLabel?: boolean;
+  className?: string;
+}
+
+/**
+ * Green dot for online users, otherwise a grey dot with "last seen" time
+ */
+export function PresenceIndicator({ userId, lastSeenAt, showLabel = true, className }: PresenceIndicatorProps) {
+  const presence = useUserPresence(userId, lastSeenAt);
+
+  const label = presence.online
+    ? 'Online'
+    : presence.lastSeenAt
+      ? `Last seen ${formatDistanceToNow(new Date(presence.lastSeenAt), { addSuffix: true })}`
+      : 'Offline';
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs text-gray-500 ${className ?? ''}`} title={label}>
+      <span className={`w-2 h-2 rounded-full ${presence.online ? 'bg-green-500' : 'bg-gray-600'}`} />
+      {showLabel && <span>{label}</span>}
+    </span>
+  );
+}
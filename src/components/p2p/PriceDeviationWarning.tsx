@@ -0,0 +1,34 @@
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { usePriceDeviation } from '@/hooks/use-reference-prices';
+import type { CryptoToken, FiatCurrency } from '@/lib/p2p-fiat';
+import { formatPrice } from '@/lib/money';
+import { decimalToNumber, toDecimal, type DecimalInput } from '@/lib/decimal';
+
+interface PriceDeviationWarningProps {
+  token: CryptoToken;
+  fiat: FiatCurrency;
+  price: DecimalInput;
+  className?: string;
+}
+
+/**
+ * Warns when a price is further from the market reference than the configured threshold
+ */
+export function PriceDeviationWarning({ token, fiat, price, className }: PriceDeviationWarningProps) {
+  const { reference, deviationPercent, exceedsThreshold } = usePriceDeviation(token, fiat, decimalToNumber(toDecimal(price)));
+
+  if (!reference || !exceedsThreshold) return null;
+
+  const direction = deviationPercent > 0 ? 'above' : 'below';
+
+  return (
+    <Alert variant="default" className={`border-yellow-500/50 ${className ?? ''}`}>
+      <AlertTriangle className="h-4 w-4 text-yellow-400" />
+      <AlertDescription className="text-sm">
+        This price is {Math.abs(deviationPercent).toFixed(1)}% {direction} the market reference
+        of {formatPrice(reference.price, fiat, token)}. Double-check before continuing.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,99 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, Megaphone, Crown, ChevronRight, Shield, Zap } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTradeStats, useUserReputation } from '@/hooks/use-p2p-queries';
+import { completionRate } from '@/lib/merchant-ranking';
+
+interface ProfileViewProps {
+  onOpenTrades: () => void;
+  onOpenAds: () => void;
+  onOpenMerchant: () => void;
+}
+
+/**
+ * The signed-in user's trading profile and links to their trades, ads and merchant status
+ */
+export function ProfileView({ onOpenTrades, onOpenAds, onOpenMerchant }: ProfileViewProps) {
+  const { user } = useAuth();
+  const { data: reputation } = useUserReputation(user?.id);
+  const { data: stats } = useTradeStats(user?.id);
+
+  if (!user) return null;
+
+  const completedPercent = reputation?.total_trades ? completionRate(reputation) : null;
+  const wallet = user.wallet_address ?? '';
+
+  const links = [
+    { label: 'My Trades', icon: ClipboardList, onClick: onOpenTrades, count: stats?.activeTrades },
+    { label: 'My Ads', icon: Megaphone, onClick: onOpenAds },
+    { label: 'Merchant Center', icon: Crown, onClick: onOpenMerchant }
+  ];
+
+  return (
+    <div className="p-4 space-y-4">
+      <Card className="bg-card">
+        <CardContent className="py-4">
+          <div className="flex items-center gap-3">
+            <Avatar className="h-14 w-14">
+              {user.avatar_url && <AvatarImage src={user.avatar_url} alt={user.display_name} />}
+              <AvatarFallback className="bg-green-500/20 text-green-400">
+                {user.display_name.slice(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-1">
+                <p className="font-semibold truncate">{user.display_name}</p>
+                {reputation?.verified_merchant && <Shield className="w-4 h-4 text-blue-400 flex-shrink-0" />}
+                {reputation?.fast_trader && <Zap className="w-4 h-4 text-yellow-400 flex-shrink-0" />}
+              </div>
+              {user.telegram_username && (
+                <p className="text-sm text-muted-foreground truncate">@{user.telegram_username}</p>
+              )}
+              {wallet && (
+                <p className="text-xs text-muted-foreground font-mono">{wallet.slice(0, 6)}...{wallet.slice(-4)}</p>
+              )}
+            </div>
+            {reputation && (
+              <Badge variant="outline" className="capitalize flex-shrink-0">{reputation.trust_level}</Badge>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mt-4 text-center">
+            <div>
+              <p className="text-lg font-bold">{reputation?.completed_trades ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Trades</p>
+            </div>
+            <div>
+              <p className="text-lg font-bold">{completedPercent === null ? '-' : `${completedPercent.toFixed(0)}%`}</p>
+              <p className="text-xs text-muted-foreground">Completion</p>
+            </div>
+            <div>
+              <p className="text-lg font-bold">{reputation?.reputation_score ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Score</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card">
+        <CardContent className="p-2">
+          {links.map(({ label, icon: Icon, onClick, count }) => (
+            <Button key={label} variant="ghost" className="w-full justify-between" onClick={onClick}>
+              <span className="flex items-center gap-2">
+                <Icon className="w-4 h-4" />
+                {label}
+              </span>
+              <span className="flex items-center gap-2">
+                {!!count && <Badge className="bg-yellow-500 text-black text-xs">{count}</Badge>}
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </span>
+            </Button>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { Copy, Check, Loader2, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { getTradePaymentDetails, type TradePaymentDetails } from '@/lib/p2p-fiat';
+
+interface SellerPaymentDetailsProps {
+  tradeId: string;
+}
+
+export function SellerPaymentDetails({ tradeId }: SellerPaymentDetailsProps) {
+  const [details, setDetails] = useState<TradePaymentDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDetails = async () => {
+      setLoading(true);
+      const data = await getTradePaymentDetails(tradeId);
+      if (!cancelled) {
+        setDetails(data);
+        setLoading(false);
+      }
+    };
+
+    fetchDetails();
+    return () => {
+      cancelled = true;
+    };
+  }, [tradeId]);
+
+  const copyField = (key: string, value: string) => {
+    navigator.clipboard.writeText(value);
+    setCopiedField(key);
+    toast.success('Copied to clipboard');
+    setTimeout(() => setCopiedField(null), 2000);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (details && !details.shared) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Waiting for the seller to share their {details.method.method_name} details securely...
+      </p>
+    );
+  }
+
+  if (details?.missingDeviceKey) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The {details.method.method_name} details were shared to your other devices. They show here once the seller's app or one of your other devices shares them again for this one.
+      </p>
+    );
+  }
+
+  if (!details || details.fields.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Payment details are unavailable. Ask the seller in chat.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/30 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{details.method.method_name}</span>
+        <Lock className="w-3 h-3 text-muted-foreground" />
+      </div>
+      {details.fields.map((field) => (
+        <div key={field.key} className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs text-muted-foreground">{field.label}</p>
+            <p className="text-sm font-mono break-all">{field.value}</p>
+          </div>
+          <button
+            className="flex-shrink-0 p-1 text-muted-foreground hover:text-foreground"
+            onClick={() => copyField(field.key, field.value)}
+            aria-label={`Copy ${field.label}`}
+          >
+            {copiedField === field.key ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
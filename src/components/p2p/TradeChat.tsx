@@ -16,6 +16,7 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
+import { PresenceIndicator } from './PresenceIndicator';
 
 interface Message {
   id: string;
@@ -335,6 +336,7 @@ export function TradeChat({
               {messages.filter(m => m.sender_id !== user?.id && !m.is_read).length}
             </span>
           )}
+          <PresenceIndicator userId={counterpartyId} className="ml-auto font-normal" />
         </CardTitle>
       </CardHeader>
 
@@ -0,0 +1,68 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Shield, Zap } from 'lucide-react';
+import type { TradeCounterparty } from '@/lib/p2p-fiat';
+import { completionRate } from '@/lib/merchant-ranking';
+import { PresenceIndicator } from './PresenceIndicator';
+
+interface TradeCounterpartyCardProps {
+  counterpartyId: string;
+  counterparty: TradeCounterparty | null;
+  isBuyer: boolean; // Whether the viewer is the buyer, i.e. the counterparty is the seller
+}
+
+/**
+ * Who the user is trading with: name, presence and trading record
+ */
+export function TradeCounterpartyCard({ counterpartyId, counterparty, isBuyer }: TradeCounterpartyCardProps) {
+  const wallet = counterparty?.wallet_address ?? '';
+  const name = counterparty?.display_name || (wallet ? `${wallet.slice(0, 6)}...${wallet.slice(-4)}` : 'Trader');
+  const reputation = counterparty?.reputation;
+  const completedPercent = reputation?.total_trades ? completionRate(reputation) : null;
+
+  return (
+    <Card className="bg-card">
+      <CardContent className="py-3">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-10 w-10">
+            {counterparty?.avatar_url && <AvatarImage src={counterparty.avatar_url} alt={name} />}
+            <AvatarFallback className="bg-green-500/20 text-green-400 text-sm">
+              {name.slice(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-1">
+              <p className="font-medium truncate">{name}</p>
+              {reputation?.verified_merchant && <Shield className="w-3.5 h-3.5 text-blue-400 flex-shrink-0" />}
+              {reputation?.fast_trader && <Zap className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0" />}
+            </div>
+            {counterparty?.telegram_username && (
+              <p className="text-xs text-muted-foreground truncate">@{counterparty.telegram_username}</p>
+            )}
+            <PresenceIndicator userId={counterpartyId} />
+          </div>
+          <Badge variant="outline" className="text-xs flex-shrink-0">
+            {isBuyer ? 'Seller' : 'Buyer'}
+          </Badge>
+        </div>
+        {reputation && (
+          <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+            <div>
+              <p className="text-sm font-semibold">{reputation.completed_trades}</p>
+              <p className="text-xs text-muted-foreground">Trades</p>
+            </div>
+            <div>
+              <p className="text-sm font-semibold">{completedPercent === null ? '-' : `${completedPercent.toFixed(0)}%`}</p>
+              <p className="text-xs text-muted-foreground">Completion</p>
+            </div>
+            <div>
+              <p className="text-sm font-semibold">{reputation.reputation_score}</p>
+              <p className="text-xs text-muted-foreground">Score</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Clock, CheckCircle2, XCircle, AlertTriangle, Copy, Check } from 'lucide-react';
-import { getTradeById, markPaymentSent, confirmPaymentReceived, cancelTrade, type P2PFiatTrade } from '@/lib/p2p-fiat';
+import { Clock, CheckCircle2, XCircle, AlertTriangle, Copy, Check, Star } from 'lucide-react';
+import { shareTradePaymentDetails, type TradeStatus } from '@/lib/p2p-fiat';
+import {
+  canRateTrade,
+  canViewPaymentDetails,
+  getAvailableActions,
+  getCounterpartyId,
+  getTradeRole,
+  isTerminalStatus,
+  PAYMENT_DETAILS_VISIBLE_STATUSES,
+  TRADE_TRANSITIONS
+} from '@/lib/trade-state-machine';
+import { p2pKeys } from '@/lib/query-keys';
+import { useCountdown, formatCountdown } from '@/hooks/use-countdown';
+import { useHasRatedTrade, useTrade, useTradeCounterparty } from '@/hooks/use-p2p-queries';
+import {
+  useCancelTrade,
+  useConfirmPaymentReceived,
+  useExpireTrade,
+  useMarkPaymentSent
+} from '@/hooks/use-p2p-mutations';
 import { useAuth } from '@/contexts/AuthContext';
+import { SellerPaymentDetails } from './SellerPaymentDetails';
+import { TradeCounterpartyCard } from './TradeCounterpartyCard';
+import { TradeChat } from './TradeChat';
+import { DisputeModal } from './DisputeModal';
+import { RatingModal } from './RatingModal';
 import { formatDistanceToNow } from 'date-fns';
+import { formatCrypto, formatFiat, formatPrice } from '@/lib/money';
 import { toast } from 'sonner';
 
 interface TradeDetailProps {
@@ -13,60 +39,83 @@ interface TradeDetailProps {
 }
 
 export function TradeDetail({ tradeId }: TradeDetailProps) {
-  const [trade, setTrade] = useState<P2PFiatTrade | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [actionLoading, setActionLoading] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [showDispute, setShowDispute] = useState(false);
+  const [showRating, setShowRating] = useState(false);
+  const [detailsOnOtherDevice, setDetailsOnOtherDevice] = useState(false);
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Status changes arrive over realtime and land in this query (see useRealtimeInvalidation)
+  const { data: trade = null, isLoading } = useTrade(tradeId);
+  // Sharing the seller's details restarts the deadline; unshared trades expire at the first one (see isPaymentOverdue)
+  const paymentTimeLeft = useCountdown(trade?.status === 'pending' ? trade.payment_deadline : null);
+  const expiryRequested = useRef(false);
+  const previousStatus = useRef<TradeStatus | null>(null);
 
-  const fetchTrade = async () => {
-    setIsLoading(true);
-    try {
-      const data = await getTradeById(tradeId);
-      setTrade(data);
-    } catch (error) {
-      console.error('Fetch trade error:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const role = trade ? getTradeRole(trade, user?.id) : null;
+  const counterpartyId = trade ? getCounterpartyId(trade, role) : null;
+  const canRate = !!trade && canRateTrade(trade.status, role);
+  const { data: counterparty = null } = useTradeCounterparty(counterpartyId);
+  const { data: hasRated } = useHasRatedTrade(tradeId, user?.id, canRate);
+
+  const markPaid = useMarkPaymentSent();
+  const confirmPayment = useConfirmPaymentReceived();
+  const cancel = useCancelTrade();
+  const { mutate: expireTrade } = useExpireTrade();
+  const actionLoading = markPaid.isPending || confirmPayment.isPending || cancel.isPending;
+
+  // Auto-cancel once the payment deadline passes (escrow refunded, offer restored)
+  useEffect(() => {
+    if (paymentTimeLeft !== 0 || expiryRequested.current) return;
+    expiryRequested.current = true;
+    expireTrade(tradeId, {
+      onSuccess: (expired) => {
+        if (expired) toast.info('Payment deadline passed. Trade was cancelled.');
+      }
+    });
+  }, [paymentTimeLeft, tradeId, expireTrade]);
+
+  // Seller's client encrypts their payment details to this trade's buyer, and again for new buyer devices
+  const sharesDetails = !!trade && user?.id === trade.seller_id && PAYMENT_DETAILS_VISIBLE_STATUSES.includes(trade.status);
+  // Shared again whenever the status or the stored ciphertext changes
+  const tradeStatus = trade?.status;
+  const sharedDetails = trade?.payment_details_encrypted;
+  useEffect(() => {
+    if (!sharesDetails) return;
+    let cancelled = false;
+    shareTradePaymentDetails(tradeId).then(result => {
+      if (!cancelled) setDetailsOnOtherDevice(result === 'missing_device_key');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sharesDetails, tradeId, tradeStatus, sharedDetails]);
 
+  // Prompt for a rating when the trade completes while it is open
   useEffect(() => {
-    fetchTrade();
-    // Poll for updates
-    const interval = setInterval(fetchTrade, 10000);
-    return () => clearInterval(interval);
-  }, [tradeId]);
-
-  const handleMarkPaid = async () => {
-    setActionLoading(true);
-    try {
-      await markPaymentSent(tradeId);
-      await fetchTrade();
-    } finally {
-      setActionLoading(false);
+    if (!trade) return;
+    if (previousStatus.current && previousStatus.current !== 'completed' && trade.status === 'completed' && role) {
+      setShowRating(true);
     }
+    previousStatus.current = trade.status;
+  }, [trade, role]);
+
+  const handleRatingClose = () => {
+    setShowRating(false);
+    if (user) queryClient.invalidateQueries({ queryKey: p2pKeys.tradeRated(tradeId, user.id) });
   };
 
-  const handleConfirm = async () => {
-    setActionLoading(true);
-    try {
-      await confirmPaymentReceived(tradeId);
-      await fetchTrade();
-    } finally {
-      setActionLoading(false);
-    }
+  const handleMarkPaid = () => {
+    markPaid.mutate({ tradeId });
   };
 
-  const handleCancel = async () => {
+  const handleConfirm = () => {
+    confirmPayment.mutate({ tradeId });
+  };
+
+  const handleCancel = () => {
     if (!confirm('Are you sure you want to cancel this trade?')) return;
-    setActionLoading(true);
-    try {
-      await cancelTrade(tradeId);
-      await fetchTrade();
-    } finally {
-      setActionLoading(false);
-    }
+    cancel.mutate({ tradeId });
   };
 
   const copyToClipboard = (text: string) => {
@@ -92,8 +141,14 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
     );
   }
 
-  const isSeller = user?.id === trade.seller_id;
-  const isBuyer = user?.id === trade.buyer_id;
+  const isBuyer = role === 'buyer';
+  const availableActions = getAvailableActions(trade.status, role);
+  const canMarkPaid = availableActions.includes('mark_paid');
+  const canCancel = availableActions.includes('cancel');
+  const canConfirm = availableActions.includes('confirm_payment');
+  const canDispute = availableActions.includes('open_dispute');
+  const counterpartyWallet = counterparty?.wallet_address ?? '';
+  const showPaymentDetails = canViewPaymentDetails(trade.status, role);
 
   const getStatusBadge = () => {
     switch (trade.status) {
@@ -107,6 +162,8 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
         return <Badge variant="secondary"><XCircle className="w-3 h-3 mr-1" />Cancelled</Badge>;
       case 'disputed':
         return <Badge variant="destructive"><AlertTriangle className="w-3 h-3 mr-1" />Disputed</Badge>;
+      case 'refunded':
+        return <Badge variant="secondary"><XCircle className="w-3 h-3 mr-1" />Refunded</Badge>;
       default:
         return <Badge>{trade.status}</Badge>;
     }
@@ -114,6 +171,10 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
 
   return (
     <div className="p-4 space-y-4">
+      {counterpartyId && (
+        <TradeCounterpartyCard counterpartyId={counterpartyId} counterparty={counterparty} isBuyer={isBuyer} />
+      )}
+
       {/* Status Card */}
       <Card className="bg-card">
         <CardHeader className="pb-2">
@@ -126,24 +187,27 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
           <div className="space-y-3">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Amount</span>
-              <span className="font-semibold">{trade.crypto_amount.toFixed(4)} HEZ</span>
+              <span className="font-semibold">{formatCrypto(trade.crypto_amount, trade.token)}</span>
             </div>
+            {/* The exact amount to pay, never shortened */}
             <div className="flex justify-between">
               <span className="text-muted-foreground">Price</span>
-              <span className="font-semibold">${trade.fiat_amount.toFixed(2)}</span>
+              <span className="font-semibold">{formatFiat(trade.fiat_amount, trade.fiat_currency, { compact: false })}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Rate</span>
-              <span>${trade.price_per_unit.toFixed(4)}/HEZ</span>
+              <span>{formatPrice(trade.price_per_unit, trade.fiat_currency, trade.token)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Created</span>
               <span>{formatDistanceToNow(new Date(trade.created_at), { addSuffix: true })}</span>
             </div>
-            {trade.payment_deadline && trade.status === 'pending' && (
-              <div className="flex justify-between text-yellow-400">
-                <span>Payment Deadline</span>
-                <span>{formatDistanceToNow(new Date(trade.payment_deadline), { addSuffix: true })}</span>
+            {paymentTimeLeft !== null && (
+              <div className={`flex justify-between ${paymentTimeLeft < 5 * 60 * 1000 ? 'text-red-400' : 'text-yellow-400'}`}>
+                <span>{trade.payment_details_encrypted ? 'Time Left to Pay' : 'Time Left to Share Details'}</span>
+                <span className="font-mono">
+                  {paymentTimeLeft > 0 ? formatCountdown(paymentTimeLeft) : 'Expired'}
+                </span>
               </div>
             )}
           </div>
@@ -151,36 +215,64 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
       </Card>
 
       {/* Role-specific info */}
-      {isBuyer && trade.status === 'pending' && (
+      {(canMarkPaid || canCancel || showPaymentDetails) && (
         <Card className="bg-card border-yellow-500/50">
           <CardHeader className="pb-2">
             <CardTitle className="text-lg">Payment Instructions</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-sm text-muted-foreground">
-              Send the payment to the seller and mark as paid when done.
+              {canMarkPaid
+                ? 'Send the payment to the seller and mark as paid when done.'
+                : 'Payment marked as sent. Waiting for the seller to confirm.'}
             </p>
+            {showPaymentDetails && (
+              <SellerPaymentDetails
+                key={trade.payment_details_encrypted ?? 'waiting'}
+                tradeId={trade.id}
+              />
+            )}
             <div className="flex gap-2">
-              <Button
-                className="flex-1"
-                onClick={handleMarkPaid}
-                disabled={actionLoading}
-              >
-                {actionLoading ? 'Processing...' : 'I Have Paid'}
-              </Button>
-              <Button
-                variant="outline"
-                onClick={handleCancel}
-                disabled={actionLoading}
-              >
-                Cancel
-              </Button>
+              {canMarkPaid && (
+                <Button
+                  className="flex-1"
+                  onClick={handleMarkPaid}
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Processing...' : TRADE_TRANSITIONS.mark_paid.label}
+                </Button>
+              )}
+              {canCancel && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                  disabled={actionLoading}
+                >
+                  {TRADE_TRANSITIONS.cancel.label}
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
       )}
 
-      {isSeller && trade.status === 'payment_sent' && (
+      {detailsOnOtherDevice && (
+        <Card className="bg-card border-yellow-500/50">
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-semibold text-yellow-400">Payment Details Not Shared</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  This device can't read the payment details of your ad. Open the app on the device you created it on to share them, or send them in the chat below.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {canConfirm && (
         <Card className="bg-card border-blue-500/50">
           <CardHeader className="pb-2">
             <CardTitle className="text-lg">Confirm Payment</CardTitle>
@@ -203,24 +295,68 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
               onClick={handleConfirm}
               disabled={actionLoading}
             >
-              {actionLoading ? 'Processing...' : 'Confirm Payment Received'}
+              {actionLoading ? 'Processing...' : TRADE_TRANSITIONS.confirm_payment.label}
             </Button>
           </CardContent>
         </Card>
       )}
 
+      {canDispute && (
+        <Button
+          variant="outline"
+          className="w-full border-red-500/50 text-red-400 hover:bg-red-500/10"
+          onClick={() => setShowDispute(true)}
+          disabled={actionLoading}
+        >
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {TRADE_TRANSITIONS.open_dispute.label}
+        </Button>
+      )}
+
+      {trade.status === 'disputed' && (
+        <Card className="bg-card border-red-500/50">
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-semibold text-red-400">Dispute Under Review</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  The escrow stays locked until an arbitrator decides. Keep the evidence and use the chat below.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {trade.status === 'completed' && (
         <Card className="bg-card border-green-500/50">
           <CardContent className="py-6 text-center">
             <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto mb-3" />
             <p className="font-semibold text-green-400">Trade Completed!</p>
             <p className="text-sm text-muted-foreground mt-1">
-              {isBuyer ? 'HEZ has been credited to your balance.' : 'Payment has been received.'}
+              {isBuyer ? `${trade.token ?? 'Crypto'} has been credited to your balance.` : 'Payment has been received.'}
             </p>
+            {canRate && hasRated === false && (
+              <Button variant="outline" className="mt-4" onClick={() => setShowRating(true)}>
+                <Star className="w-4 h-4 mr-2" />
+                Rate {isBuyer ? 'Seller' : 'Buyer'}
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
 
+      {/* Chat stays readable after the trade ends, for disputes and records */}
+      {counterpartyId && (
+        <TradeChat
+          tradeId={trade.id}
+          counterpartyId={counterpartyId}
+          counterpartyWallet={counterpartyWallet}
+          isTradeActive={!isTerminalStatus(trade.status)}
+        />
+      )}
+
       {/* Trade ID */}
       <Card className="bg-card">
         <CardContent className="py-3">
@@ -236,6 +372,28 @@ export function TradeDetail({ tradeId }: TradeDetailProps) {
           </div>
         </CardContent>
       </Card>
+
+      {/* Stays mounted while open: submitting moves the trade out of the disputable statuses */}
+      {(canDispute || showDispute) && (
+        <DisputeModal
+          isOpen={showDispute}
+          onClose={() => setShowDispute(false)}
+          tradeId={trade.id}
+          counterpartyWallet={counterpartyWallet}
+          isBuyer={isBuyer}
+        />
+      )}
+
+      {canRate && counterpartyId && hasRated === false && (
+        <RatingModal
+          isOpen={showRating}
+          onClose={handleRatingClose}
+          tradeId={trade.id}
+          counterpartyId={counterpartyId}
+          counterpartyWallet={counterpartyWallet}
+          isBuyer={isBuyer}
+        />
+      )}
     </div>
   );
 }
@@ -10,11 +10,27 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, AlertTriangle, Clock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useReferencePrice } from '@/hooks/use-reference-prices';
 import { toast } from 'sonner';
-import { acceptFiatOffer, type P2PFiatOffer } from '@/lib/p2p-fiat';
+import { PriceDeviationWarning } from './PriceDeviationWarning';
+import { AmountInput } from './AmountInput';
+import { useInternalBalance, usePaymentMethodsByIds } from '@/hooks/use-p2p-queries';
+import { useAcceptOffer } from '@/hooks/use-p2p-mutations';
+import {
+  formatPaymentFieldLabel,
+  getOfferPaymentMethods,
+  validatePaymentDetails,
+  type P2PFiatOffer,
+  type PaymentMethod
+} from '@/lib/p2p-fiat';
+import { formatMargin, getEffectivePrice } from '@/lib/p2p-pricing';
+import { compareCrypto, fiatTotal, formatCrypto, formatFiat, formatPrice, roundCrypto } from '@/lib/money';
+import { amountToDecimal } from '@/lib/amount-input';
+import { getTokenInfo } from '@/lib/assets';
 
 interface TradeModalProps {
   offer: P2PFiatOffer;
@@ -22,17 +38,49 @@ interface TradeModalProps {
   onTradeStarted?: (tradeId: string) => void;
 }
 
+function emptyPaymentDetails(method: PaymentMethod): Record<string, string> {
+  return Object.fromEntries(Object.keys(method.fields).map(field => [field, '']));
+}
+
 export function TradeModal({ offer, onClose, onTradeStarted }: TradeModalProps) {
   const { user } = useAuth();
   const [amount, setAmount] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const cryptoAmount = parseFloat(amount) || 0;
-  const fiatAmount = cryptoAmount * offer.price_per_unit;
-  const isValidAmount = cryptoAmount > 0 && cryptoAmount <= offer.remaining_amount;
+  // Selling into a buy ad: the taker is the seller and must lock crypto and share payment details
+  const isSelling = offer.ad_type === 'buy';
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
+  const [paymentDetails, setPaymentDetails] = useState<Record<string, string>>({});
+  const { data: offerMethods = [] } = usePaymentMethodsByIds(getOfferPaymentMethods(offer).map(m => m.payment_method_id));
+  const { data: sellBalance } = useInternalBalance(offer.token, isSelling);
+  const availableBalance = isSelling && sellBalance !== undefined ? sellBalance?.available_balance ?? 0 : null;
+  const acceptOffer = useAcceptOffer();
+
+  // Preselect when there is nothing to choose
+  const paymentMethod = selectedMethod ?? (offerMethods.length === 1 ? offerMethods[0] : null);
+
+  const selectPaymentMethod = (method: PaymentMethod) => {
+    setSelectedMethod(method);
+    setPaymentDetails(emptyPaymentDetails(method));
+  };
+
+  // Floating offers follow the reference price until the trade locks it
+  const isFloating = offer.price_type === 'floating';
+  const referencePrice = useReferencePrice(offer.token, offer.fiat_currency, isFloating);
+  const pricePerUnit = getEffectivePrice(offer, referencePrice?.price);
+
+  const cryptoAmount = roundCrypto(amountToDecimal(amount), offer.token);
+  const fiatAmount = fiatTotal(cryptoAmount, pricePerUnit, offer.fiat_currency);
+  const hasAmount = compareCrypto(cryptoAmount, 0, offer.token) > 0;
+  const isValidAmount = hasAmount && compareCrypto(cryptoAmount, offer.remaining_amount, offer.token) <= 0;
 
-  const meetsMinOrder = !offer.min_order_amount || cryptoAmount >= offer.min_order_amount;
-  const meetsMaxOrder = !offer.max_order_amount || cryptoAmount <= offer.max_order_amount;
+  const meetsMinOrder = !offer.min_order_amount || compareCrypto(cryptoAmount, offer.min_order_amount, offer.token) >= 0;
+  const meetsMaxOrder = !offer.max_order_amount || compareCrypto(cryptoAmount, offer.max_order_amount, offer.token) <= 0;
+  const hasBalance = !isSelling
+    || (availableBalance !== null && compareCrypto(cryptoAmount, availableBalance, offer.token) <= 0);
+  const detailsValidation = isSelling && paymentMethod
+    ? validatePaymentDetails(paymentDetails, paymentMethod.validation_rules)
+    : { valid: true, errors: {} as Record<string, string> };
 
   const handleInitiateTrade = async () => {
     if (!user) {
@@ -60,16 +108,34 @@ export function TradeModal({ offer, onClose, onTradeStarted }: TradeModalProps)
       return;
     }
 
+    if (!paymentMethod) {
+      toast.error('Select a payment method');
+      return;
+    }
+
+    if (!hasBalance) {
+      toast.error(`Insufficient ${offer.token} balance`);
+      return;
+    }
+
+    if (!detailsValidation.valid) {
+      toast.error('Please check your payment details');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const tradeId = await acceptFiatOffer({
+      const tradeId = await acceptOffer.mutateAsync({
         offerId: offer.id,
-        buyerWallet: user.wallet_address || '',
-        amount: cryptoAmount
+        takerWallet: user.wallet_address || '',
+        paymentMethodId: paymentMethod.id,
+        amount: cryptoAmount,
+        expectedPrice: pricePerUnit,
+        paymentDetails: isSelling ? paymentDetails : undefined
       });
 
-      toast.success('Trade initiated! Proceed to payment.');
+      toast.success(isSelling ? 'Trade initiated! Wait for the buyer\'s payment.' : 'Trade initiated! Proceed to payment.');
       onClose();
       onTradeStarted?.(tradeId);
     } catch (error) {
@@ -83,51 +149,118 @@ export function TradeModal({ offer, onClose, onTradeStarted }: TradeModalProps)
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="max-w-md">
         <DialogHeader>
-          <DialogTitle>Buy {offer.token}</DialogTitle>
+          <DialogTitle>{isSelling ? 'Sell' : 'Buy'} {offer.token}</DialogTitle>
           <DialogDescription>
-            Rate: {offer.price_per_unit.toFixed(4)} {offer.fiat_currency}/{offer.token}
+            Rate: {formatPrice(pricePerUnit, offer.fiat_currency, offer.token)}
+            {isFloating && ` · Floating ${formatMargin(offer.price_margin_percent ?? 0)}, locked when the trade starts`}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <Label htmlFor="amount">Amount ({offer.token})</Label>
-            <Input
+            <AmountInput
               id="amount"
-              type="number"
-              placeholder={`Max: ${offer.remaining_amount}`}
+              placeholder={`Max: ${formatCrypto(offer.remaining_amount, offer.token, { showCode: false })}`}
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              max={offer.remaining_amount}
-              min={offer.min_order_amount || 0}
-              step="0.0001"
+              onChange={setAmount}
+              decimals={getTokenInfo(offer.token).decimals}
+              min={offer.min_order_amount}
+              max={Math.min(offer.remaining_amount, offer.max_order_amount || Infinity)}
             />
             <p className="text-xs text-muted-foreground">
-              Available: {offer.remaining_amount.toFixed(4)} {offer.token}
+              {isSelling ? 'Buyer wants' : 'Available'}: {formatCrypto(offer.remaining_amount, offer.token)}
+              {isSelling && availableBalance !== null && (
+                <> · Your balance: {formatCrypto(availableBalance, offer.token)}</>
+              )}
             </p>
           </div>
 
-          {cryptoAmount > 0 && (
+          {hasAmount && (
             <div className="p-3 bg-accent rounded-lg">
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">You pay</span>
+                <span className="text-muted-foreground">{isSelling ? 'You send' : 'You pay'}</span>
                 <span className="font-medium">
-                  {fiatAmount.toFixed(2)} {offer.fiat_currency}
+                  {isSelling
+                    ? formatCrypto(cryptoAmount, offer.token)
+                    : formatFiat(fiatAmount, offer.fiat_currency)}
                 </span>
               </div>
               <div className="flex justify-between text-sm mt-1">
                 <span className="text-muted-foreground">You receive</span>
                 <span className="font-medium">
-                  {cryptoAmount.toFixed(4)} {offer.token}
+                  {isSelling
+                    ? formatFiat(fiatAmount, offer.fiat_currency)
+                    : formatCrypto(cryptoAmount, offer.token)}
                 </span>
               </div>
             </div>
           )}
 
+          <div className="space-y-2">
+            <Label>Payment method</Label>
+            <Select
+              value={paymentMethod?.id}
+              onValueChange={(id) => {
+                const method = offerMethods.find(m => m.id === id);
+                if (method) selectPaymentMethod(method);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={isSelling ? 'How do you want to be paid?' : 'How will you pay?'} />
+              </SelectTrigger>
+              <SelectContent>
+                {offerMethods.map(method => (
+                  <SelectItem key={method.id} value={method.id}>
+                    {method.method_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <PriceDeviationWarning token={offer.token} fiat={offer.fiat_currency} price={pricePerUnit} />
+
+          {isSelling && paymentMethod && (
+            <div className="space-y-3 p-3 border border-border rounded-lg">
+              <p className="text-sm font-medium">
+                Your {paymentMethod.method_name} details
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Encrypted so only this buyer can read them.
+              </p>
+              {Object.entries(paymentMethod.fields).map(([field, placeholder]) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`pd-${field}`}>{formatPaymentFieldLabel(field)}</Label>
+                  <Input
+                    id={`pd-${field}`}
+                    value={paymentDetails[field] || ''}
+                    onChange={(e) => setPaymentDetails(prev => ({ ...prev, [field]: e.target.value }))}
+                    placeholder={placeholder}
+                  />
+                  {paymentDetails[field] && detailsValidation.errors[field] && (
+                    <p className="text-xs text-red-400">{detailsValidation.errors[field]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isSelling && hasAmount && !hasBalance && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Insufficient {offer.token} balance. Deposit to your P2P balance first.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <Alert variant="default" className="border-yellow-500/50">
             <Clock className="h-4 w-4" />
             <AlertDescription className="text-sm">
-              Payment must be completed within {offer.time_limit_minutes} minutes
+              {isSelling
+                ? `Your ${offer.token} is locked in escrow. The buyer must pay within ${offer.time_limit_minutes} minutes.`
+                : `Payment must be completed within ${offer.time_limit_minutes} minutes`}
             </AlertDescription>
           </Alert>
 
@@ -156,7 +289,7 @@ export function TradeModal({ offer, onClose, onTradeStarted }: TradeModalProps)
           </Button>
           <Button
             onClick={handleInitiateTrade}
-            disabled={loading || !isValidAmount || !meetsMinOrder || !meetsMaxOrder}
+            disabled={loading || !paymentMethod || !isValidAmount || !meetsMinOrder || !meetsMaxOrder || !hasBalance || !detailsValidation.valid}
           >
             {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
             {loading ? 'Processing...' : 'Start Trade'}
@@ -32,12 +32,14 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import {
-  requestWithdraw,
-  getInternalBalance,
-  type CryptoToken,
-  type InternalBalance
-} from '@/lib/p2p-fiat';
+import { useAssets } from '@/hooks/use-assets';
+import { useInternalBalance } from '@/hooks/use-p2p-queries';
+import { useRequestWithdraw } from '@/hooks/use-p2p-mutations';
+import type { CryptoToken } from '@/lib/p2p-fiat';
+import { compareCrypto, formatCrypto, roundCrypto } from '@/lib/money';
+import { amountToDecimal, numberToAmount } from '@/lib/amount-input';
+import { getTokenInfo } from '@/lib/assets';
+import { AmountInput } from './AmountInput';
 
 interface WithdrawModalProps {
   isOpen: boolean;
@@ -47,27 +49,21 @@ interface WithdrawModalProps {
 
 export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps) {
   const { user } = useAuth();
+  const { enabledTokens } = useAssets();
   const [token, setToken] = useState<CryptoToken>('HEZ');
   const [amount, setAmount] = useState('');
   const [walletAddress, setWalletAddress] = useState('');
-  const [balance, setBalance] = useState<InternalBalance | null>(null);
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
+  const { data: balance } = useInternalBalance(token, isOpen && !!user);
+  const withdraw = useRequestWithdraw();
 
   useEffect(() => {
-    if (isOpen && user) {
-      fetchBalance();
-      // Pre-fill wallet from user profile
-      if (user.wallet_address) {
-        setWalletAddress(user.wallet_address);
-      }
+    // Pre-fill wallet from user profile
+    if (isOpen && user?.wallet_address) {
+      setWalletAddress(user.wallet_address);
     }
-  }, [isOpen, user, token]);
-
-  const fetchBalance = async () => {
-    const bal = await getInternalBalance(token);
-    setBalance(bal);
-  };
+  }, [isOpen, user]);
 
   const resetModal = () => {
     setAmount('');
@@ -86,13 +82,13 @@ export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps
       return;
     }
 
-    const withdrawAmount = parseFloat(amount);
-    if (isNaN(withdrawAmount) || withdrawAmount <= 0) {
+    const withdrawAmount = roundCrypto(amountToDecimal(amount), token);
+    if (compareCrypto(withdrawAmount, 0, token) <= 0) {
       toast.error('Please enter a valid amount');
       return;
     }
 
-    if (balance && withdrawAmount > balance.available_balance) {
+    if (balance && compareCrypto(withdrawAmount, balance.available_balance, token) > 0) {
       toast.error('Insufficient balance');
       return;
     }
@@ -100,7 +96,7 @@ export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps
     setLoading(true);
 
     try {
-      await requestWithdraw(token, withdrawAmount, walletAddress);
+      await withdraw.mutateAsync({ token, amount: withdrawAmount, walletAddress });
       setSuccess(true);
       window.Telegram?.WebApp.HapticFeedback.notificationOccurred('success');
       onSuccess?.();
@@ -113,7 +109,7 @@ export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps
 
   const handleSetMax = () => {
     if (balance) {
-      setAmount(balance.available_balance.toString());
+      setAmount(numberToAmount(balance.available_balance, getTokenInfo(token).decimals));
     }
   };
 
@@ -128,7 +124,7 @@ export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps
             <div>
               <h3 className="text-lg font-semibold text-green-500">Request Submitted!</h3>
               <p className="text-muted-foreground text-sm mt-1">
-                {amount} {token} withdrawal is being processed.
+                {formatCrypto(amountToDecimal(amount), token)} withdrawal is being processed.
               </p>
               <p className="text-muted-foreground text-xs mt-2">
                 Usually completes within 5-10 minutes.
@@ -162,8 +158,11 @@ export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="HEZ">HEZ (Native)</SelectItem>
-                <SelectItem value="PEZ">PEZ</SelectItem>
+                {enabledTokens.map(t => (
+                  <SelectItem key={t.code} value={t.code}>
+                    {t.code}{t.native ? ' (Native)' : ''}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -175,17 +174,15 @@ export function WithdrawModal({ isOpen, onClose, onSuccess }: WithdrawModalProps
                 onClick={handleSetMax}
                 className="text-xs text-primary hover:underline"
               >
-                Max: {balance?.available_balance.toFixed(4) || '0'} {token}
+                Max: {formatCrypto(balance?.available_balance ?? 0, token)}
               </button>
             </div>
-            <Input
-              type="number"
+            <AmountInput
               placeholder="0.00"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              min="0"
+              onChange={setAmount}
+              decimals={getTokenInfo(token).decimals}
               max={balance?.available_balance}
-              step="0.0001"
             />
           </div>
 
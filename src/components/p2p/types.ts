@@ -1,8 +1,10 @@
 // P2P Filter types and defaults - separate file to avoid react-refresh warning
 
+import type { CryptoToken } from '@/lib/assets';
+
 export interface P2PFilters {
   // Token
-  token: 'HEZ' | 'PEZ' | 'all';
+  token: CryptoToken | 'all';
 
   // Fiat currency
   fiatCurrency: string | 'all';
@@ -27,7 +29,7 @@ export interface P2PFilters {
   verifiedOnly: boolean;
 
   // Sort
-  sortBy: 'price' | 'completion_rate' | 'trades' | 'newest';
+  sortBy: 'price' | 'completion_rate' | 'trades' | 'release_time' | 'score' | 'newest';
   sortOrder: 'asc' | 'desc';
 }
 
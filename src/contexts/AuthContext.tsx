@@ -1,6 +1,6 @@
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
-import { setCurrentUserId } from '@/lib/p2p-fiat';
+import { setCurrentUserId, initPaymentEncryption } from '@/lib/p2p-fiat';
 
 // Telegram WebApp types
 declare global {
@@ -19,6 +19,7 @@ declare global {
           };
           auth_date: number;
           hash: string;
+          start_param?: string; // From a t.me/<bot>/<app>?startapp=... link
         };
         ready: () => void;
         expand: () => void;
@@ -29,6 +30,12 @@ declare global {
           hide: () => void;
           onClick: (callback: () => void) => void;
         };
+        BackButton: {
+          show: () => void;
+          hide: () => void;
+          onClick: (callback: () => void) => void;
+          offClick: (callback: () => void) => void;
+        };
         HapticFeedback: {
           impactOccurred: (style: 'light' | 'medium' | 'heavy' | 'rigid' | 'soft') => void;
           notificationOccurred: (type: 'error' | 'success' | 'warning') => void;
@@ -229,6 +236,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Publish this device's encryption key and share pending payment details once logged in
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      initPaymentEncryption();
+    }
+  }, [userId]);
+
   // Auto-login on mount
   useEffect(() => {
     const initAuth = async () => {
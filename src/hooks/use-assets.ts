@@ -0,0 +1,32 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getAssetRegistry,
+  subscribeAssetRegistry,
+  type AssetRegistry,
+  type FiatInfo,
+  type TokenInfo
+} from '@/lib/assets';
+import { loadAssetRegistry } from '@/lib/asset-config';
+
+export interface Assets extends AssetRegistry {
+  enabledFiats: FiatInfo[];
+  enabledTokens: TokenInfo[];
+}
+
+/**
+ * The current asset registry; starts from the built-in defaults and updates
+ * once the platform config has loaded
+ */
+export function useAssets(): Assets {
+  const registry = useSyncExternalStore(subscribeAssetRegistry, getAssetRegistry);
+
+  useEffect(() => {
+    loadAssetRegistry();
+  }, []);
+
+  return {
+    ...registry,
+    enabledFiats: registry.fiats.filter(f => f.enabled),
+    enabledTokens: registry.tokens.filter(t => t.enabled)
+  };
+}
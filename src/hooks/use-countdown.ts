@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Milliseconds left until a deadline, ticking every second.
+ * Returns null when there is no deadline and 0 once it has passed.
+ */
+export function useCountdown(deadline?: string | null): number | null {
+  const target = deadline ? new Date(deadline).getTime() : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (target === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [target]);
+
+  if (target === null) return null;
+  return Math.max(0, target - now);
+}
+
+/**
+ * Format a remaining duration as mm:ss (or h:mm:ss for long deadlines)
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
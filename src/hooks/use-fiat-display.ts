@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_FIAT_DISPLAY,
+  getFiatDisplay,
+  loadFiatDisplay,
+  saveFiatDisplay,
+  setFiatDisplay,
+  subscribeFiatDisplay,
+  type FiatDisplayPreferences
+} from '@/lib/fiat-display';
+
+export interface FiatDisplaySettings {
+  preferences: FiatDisplayPreferences;
+  update: (changes: Partial<FiatDisplayPreferences>) => void;
+}
+
+/**
+ * Current fiat display preferences; re-renders when they change
+ */
+export function useFiatDisplay(): FiatDisplayPreferences {
+  return useSyncExternalStore(subscribeFiatDisplay, getFiatDisplay);
+}
+
+/**
+ * Apply the signed-in user's saved display preferences and change them.
+ * Use once near the root; everything else reads them through the formatters.
+ */
+export function useFiatDisplaySettings(userId: string | null | undefined): FiatDisplaySettings {
+  const preferences = useFiatDisplay();
+
+  useEffect(() => {
+    setFiatDisplay(userId ? loadFiatDisplay(userId) : DEFAULT_FIAT_DISPLAY);
+  }, [userId]);
+
+  const update = useCallback((changes: Partial<FiatDisplayPreferences>) => {
+    const next = { ...getFiatDisplay(), ...changes };
+    setFiatDisplay(next);
+    if (userId) saveFiatDisplay(userId, next);
+  }, [userId]);
+
+  return { preferences, update };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  loadLocalPresets,
+  savePresets,
+  syncPresets,
+  MAX_FILTER_PRESETS,
+  type FilterPreset
+} from '@/lib/filter-presets';
+import type { P2PFilters } from '@/components/p2p/types';
+
+export interface FilterPresetsState {
+  presets: FilterPreset[];
+  defaultPreset: FilterPreset | null;
+  synced: boolean; // Profile copy loaded
+  savePreset: (name: string, filters: P2PFilters) => void;
+  deletePreset: (id: string) => void;
+  setDefaultPreset: (id: string | null) => void;
+}
+
+/**
+ * The user's saved filter presets, loaded from this device first and then
+ * replaced by the copy synced to their profile
+ */
+export function useFilterPresets(userId: string | null | undefined): FilterPresetsState {
+  const [presets, setPresets] = useState<FilterPreset[]>(() => (userId ? loadLocalPresets(userId) : []));
+  const [synced, setSynced] = useState(false);
+  const [presetsUserId, setPresetsUserId] = useState(userId);
+
+  // Another user: show their device copy until their profile copy arrives
+  if (presetsUserId !== userId) {
+    setPresetsUserId(userId);
+    setPresets(userId ? loadLocalPresets(userId) : []);
+    setSynced(false);
+  }
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    syncPresets(userId).then((loaded) => {
+      if (cancelled) return;
+      setPresets(loaded);
+      setSynced(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const update = useCallback((next: FilterPreset[]) => {
+    setPresets(next);
+    if (userId) savePresets(userId, next);
+  }, [userId]);
+
+  const savePreset = useCallback((name: string, filters: P2PFilters) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    // Saving under an existing name overwrites that preset
+    const existing = presets.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      update(presets.map(p => (p.id === existing.id ? { ...p, filters } : p)));
+      toast.success(`Preset "${existing.name}" updated`);
+      return;
+    }
+
+    if (presets.length >= MAX_FILTER_PRESETS) {
+      toast.error(`You can save up to ${MAX_FILTER_PRESETS} presets`);
+      return;
+    }
+
+    update([...presets, { id: crypto.randomUUID(), name: trimmed, filters, isDefault: false }]);
+    toast.success(`Preset "${trimmed}" saved`);
+  }, [presets, update]);
+
+  const deletePreset = useCallback((id: string) => {
+    update(presets.filter(p => p.id !== id));
+  }, [presets, update]);
+
+  const setDefaultPreset = useCallback((id: string | null) => {
+    update(presets.map(p => ({ ...p, isDefault: p.id === id })));
+  }, [presets, update]);
+
+  return {
+    presets,
+    defaultPreset: presets.find(p => p.isDefault) ?? null,
+    synced,
+    savePreset,
+    deletePreset,
+    setDefaultPreset
+  };
+}
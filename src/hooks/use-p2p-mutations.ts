@@ -0,0 +1,296 @@
+import { useEffect } from 'react';
+import { useMutation, useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import {
+  acceptFiatOffer,
+  cancelTrade,
+  closeOffer,
+  confirmPaymentReceived,
+  createFiatOffer,
+  executeExpressOrder,
+  expireOverdueTrades,
+  expireTrade,
+  markPaymentSent,
+  markTradeDisputed,
+  pauseOffer,
+  repriceOffer,
+  requestWithdraw,
+  resizeOffer,
+  resumeOffer,
+  updateOfferPricing,
+  type AcceptOfferParams,
+  type CreateOfferParams,
+  type CryptoToken,
+  type ExecuteExpressOrderParams,
+  type OfferStatus,
+  type P2PFiatOffer,
+  type P2PFiatTrade
+} from '@/lib/p2p-fiat';
+import { markAllNotificationsRead, markNotificationRead, type P2PNotification } from '@/lib/notifications';
+import type { FloatingPricing } from '@/lib/p2p-pricing';
+import type { DecimalInput } from '@/lib/decimal';
+import { TRADE_TRANSITIONS, type TradeAction } from '@/lib/trade-state-machine';
+import { p2pKeys } from '@/lib/query-keys';
+
+// The p2p-fiat actions toast their own errors and rethrow; mutations only manage the cache
+
+// =====================================================
+// CACHE HELPERS
+// =====================================================
+
+type Snapshot = [QueryKey, unknown][];
+
+/**
+ * Stop in-flight fetches that would overwrite an optimistic update and keep the current data
+ */
+async function takeSnapshot(queryClient: QueryClient, keys: QueryKey[]): Promise<Snapshot> {
+  await Promise.all(keys.map(queryKey => queryClient.cancelQueries({ queryKey })));
+  return keys.flatMap(queryKey => queryClient.getQueriesData({ queryKey }));
+}
+
+function restoreSnapshot(queryClient: QueryClient, snapshot: Snapshot | undefined): void {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+function invalidate(queryClient: QueryClient, keys: QueryKey[]): Promise<unknown> {
+  return Promise.all(keys.map(queryKey => queryClient.invalidateQueries({ queryKey })));
+}
+
+// What an offer change or a new trade can touch: offer amounts, escrow in balances, trade lists
+const TRADING_KEYS = [p2pKeys.offers(), p2pKeys.balances(), p2pKeys.trades()];
+
+// How often an open trade list looks for overdue trades to expire
+const OVERDUE_CHECK_INTERVAL_MS = 60_000;
+
+// =====================================================
+// OFFERS
+// =====================================================
+
+export function useCreateOffer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (params: CreateOfferParams) => createFiatOffer(params),
+    onSettled: () => invalidate(queryClient, [p2pKeys.offers(), p2pKeys.balances()])
+  });
+}
+
+export function useAcceptOffer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (params: AcceptOfferParams) => acceptFiatOffer(params),
+    onSettled: () => invalidate(queryClient, TRADING_KEYS)
+  });
+}
+
+export function useExecuteExpressOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (params: ExecuteExpressOrderParams) => executeExpressOrder(params),
+    onSettled: () => invalidate(queryClient, TRADING_KEYS)
+  });
+}
+
+/**
+ * Offer status changes show at once in My Ads and roll back if they fail
+ */
+function useOfferStatusMutation(run: (offerId: string) => Promise<void>, status: OfferStatus) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: run,
+    onMutate: async (offerId: string) => {
+      const snapshot = await takeSnapshot(queryClient, [p2pKeys.myOffers()]);
+      queryClient.setQueryData<P2PFiatOffer[]>(p2pKeys.myOffers(), offers =>
+        offers?.map(offer => (offer.id === offerId ? { ...offer, status } : offer))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _offerId, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: () => invalidate(queryClient, [p2pKeys.offers(), p2pKeys.balances()])
+  });
+}
+
+export function usePauseOffer() {
+  return useOfferStatusMutation(pauseOffer, 'paused');
+}
+
+export function useResumeOffer() {
+  return useOfferStatusMutation(resumeOffer, 'open');
+}
+
+// Closing returns a sell ad's remaining escrow to the available balance
+export function useCloseOffer() {
+  return useOfferStatusMutation(closeOffer, 'cancelled');
+}
+
+export function useRepriceOffer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ offerId, pricePerUnit }: { offerId: string; pricePerUnit: number }) =>
+      repriceOffer(offerId, pricePerUnit),
+    onSettled: () => invalidate(queryClient, [p2pKeys.offers()])
+  });
+}
+
+export function useUpdateOfferPricing() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ offerId, pricing }: { offerId: string; pricing: FloatingPricing }) =>
+      updateOfferPricing(offerId, pricing),
+    onSettled: () => invalidate(queryClient, [p2pKeys.offers()])
+  });
+}
+
+// Resizing moves the difference between escrow and the available balance
+export function useResizeOffer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ offerId, amount }: { offerId: string; amount: DecimalInput }) => resizeOffer(offerId, amount),
+    onSettled: () => invalidate(queryClient, [p2pKeys.offers(), p2pKeys.balances()])
+  });
+}
+
+// =====================================================
+// TRADES
+// =====================================================
+
+/**
+ * Trade transitions move the trade to its next status in the detail and list
+ * caches right away; the server result replaces it once the mutation settles.
+ */
+function useTradeTransitionMutation<TVariables extends { tradeId: string }>(
+  action: TradeAction,
+  run: (variables: TVariables) => Promise<void>
+) {
+  const queryClient = useQueryClient();
+  const status = TRADE_TRANSITIONS[action].to;
+
+  return useMutation({
+    mutationFn: run,
+    onMutate: async ({ tradeId }: TVariables) => {
+      const snapshot = await takeSnapshot(queryClient, [p2pKeys.trade(tradeId), p2pKeys.tradeLists()]);
+      queryClient.setQueryData<P2PFiatTrade | null>(p2pKeys.trade(tradeId), trade =>
+        trade ? { ...trade, status } : trade
+      );
+      queryClient.setQueriesData<P2PFiatTrade[]>({ queryKey: p2pKeys.tradeLists() }, trades =>
+        trades?.map(trade => (trade.id === tradeId ? { ...trade, status } : trade))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: () => invalidate(queryClient, TRADING_KEYS)
+  });
+}
+
+export function useMarkPaymentSent() {
+  return useTradeTransitionMutation('mark_paid', ({ tradeId, paymentProofUrl }: { tradeId: string; paymentProofUrl?: string }) =>
+    markPaymentSent(tradeId, paymentProofUrl)
+  );
+}
+
+export function useConfirmPaymentReceived() {
+  return useTradeTransitionMutation('confirm_payment', ({ tradeId }: { tradeId: string }) =>
+    confirmPaymentReceived(tradeId)
+  );
+}
+
+export function useCancelTrade() {
+  return useTradeTransitionMutation('cancel', ({ tradeId, reason }: { tradeId: string; reason?: string }) =>
+    cancelTrade(tradeId, reason)
+  );
+}
+
+/**
+ * Move a trade into dispute; not optimistic, since the dispute form is only shown while
+ * the trade can be disputed and must keep what was entered until the server answers
+ */
+export function useMarkTradeDisputed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ tradeId, dispute }: { tradeId: string; dispute: { id: string; reason: string } }) =>
+      markTradeDisputed(tradeId, dispute),
+    onSettled: () => invalidate(queryClient, TRADING_KEYS)
+  });
+}
+
+/**
+ * Expire an overdue trade; not optimistic, the server decides whether it is still overdue
+ */
+export function useExpireTrade() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (tradeId: string) => expireTrade(tradeId),
+    onSettled: () => invalidate(queryClient, TRADING_KEYS)
+  });
+}
+
+export function useExpireOverdueTrades() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (userId: string) => expireOverdueTrades(userId),
+    onSuccess: (expired) => (expired > 0 ? invalidate(queryClient, TRADING_KEYS) : undefined)
+  });
+}
+
+/**
+ * Expire the user's overdue trades while the calling component is mounted: once on
+ * mount, then on a fixed interval, independent of how often trade queries refetch
+ */
+export function useOverdueTradeExpiry(userId: string | null | undefined): void {
+  const { mutate } = useExpireOverdueTrades();
+
+  useEffect(() => {
+    if (!userId) return;
+    mutate(userId);
+    const interval = setInterval(() => mutate(userId), OVERDUE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [userId, mutate]);
+}
+
+// =====================================================
+// BALANCES
+// =====================================================
+
+export function useRequestWithdraw() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ token, amount, walletAddress }: { token: CryptoToken; amount: DecimalInput; walletAddress: string }) =>
+      requestWithdraw(token, amount, walletAddress),
+    onSettled: () => invalidate(queryClient, [p2pKeys.balances()])
+  });
+}
+
+// =====================================================
+// NOTIFICATIONS
+// =====================================================
+
+function useNotificationReadMutation<TVariables>(
+  userId: string | null | undefined,
+  run: (variables: TVariables) => Promise<void>,
+  isAffected: (notification: P2PNotification, variables: TVariables) => boolean
+) {
+  const queryClient = useQueryClient();
+  const queryKey = p2pKeys.notifications(userId ?? '');
+
+  return useMutation({
+    mutationFn: run,
+    onMutate: async (variables: TVariables) => {
+      const snapshot = await takeSnapshot(queryClient, [queryKey]);
+      queryClient.setQueryData<P2PNotification[]>(queryKey, notifications =>
+        notifications?.map(n => (isAffected(n, variables) ? { ...n, is_read: true } : n))
+      );
+      return { snapshot };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Mark notifications read error:', error);
+      restoreSnapshot(queryClient, context?.snapshot);
+    },
+    onSettled: () => invalidate(queryClient, [queryKey])
+  });
+}
+
+export function useMarkNotificationRead(userId: string | null | undefined) {
+  return useNotificationReadMutation(userId, markNotificationRead, (n, notificationId: string) => n.id === notificationId);
+}
+
+export function useMarkAllNotificationsRead(userId: string | null | undefined) {
+  return useNotificationReadMutation<void>(userId, () => markAllNotificationsRead(userId!), () => true);
+}
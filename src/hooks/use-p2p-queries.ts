@@ -0,0 +1,160 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import {
+  getInternalBalance,
+  getInternalBalances,
+  getMyOffers,
+  getOffer,
+  getPaymentMethods,
+  getPaymentMethodsByIds,
+  getTradeById,
+  getTradeCounterparty,
+  getTradeStats,
+  getUserReputation,
+  getUserTrades,
+  hasRatedTrade,
+  type CryptoToken,
+  type FiatCurrency
+} from '@/lib/p2p-fiat';
+import { getOfferFeed, type OfferFeedQuery } from '@/lib/offer-feed';
+import { getNotifications } from '@/lib/notifications';
+import { p2pKeys } from '@/lib/query-keys';
+
+// =====================================================
+// OFFERS
+// =====================================================
+
+/**
+ * The public offer feed, one page per fetch (see offer-feed)
+ */
+export function useOfferFeed(query: OfferFeedQuery, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: p2pKeys.offerFeed(query),
+    queryFn: ({ pageParam }) => getOfferFeed(query, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, _pages, lastPageParam) => (lastPage.hasMore ? lastPageParam + 1 : undefined),
+    enabled
+  });
+}
+
+export function useOffer(offerId: string) {
+  return useQuery({
+    queryKey: p2pKeys.offer(offerId),
+    queryFn: () => getOffer(offerId)
+  });
+}
+
+export function useMyOffers() {
+  return useQuery({
+    queryKey: p2pKeys.myOffers(),
+    queryFn: getMyOffers
+  });
+}
+
+// =====================================================
+// TRADES
+// =====================================================
+
+/**
+ * All trades of a user, newest first (overdue ones are expired by useOverdueTradeExpiry)
+ */
+export function useUserTrades(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: p2pKeys.userTrades(userId ?? ''),
+    queryFn: () => getUserTrades(userId!),
+    enabled: !!userId
+  });
+}
+
+export function useTrade(tradeId: string) {
+  return useQuery({
+    queryKey: p2pKeys.trade(tradeId),
+    queryFn: () => getTradeById(tradeId)
+  });
+}
+
+export function useTradeStats(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: p2pKeys.tradeStats(userId ?? ''),
+    queryFn: () => getTradeStats(userId!),
+    enabled: !!userId
+  });
+}
+
+export function useHasRatedTrade(tradeId: string, userId: string | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: p2pKeys.tradeRated(tradeId, userId ?? ''),
+    queryFn: () => hasRatedTrade(tradeId, userId!),
+    enabled: enabled && !!userId
+  });
+}
+
+// =====================================================
+// BALANCES
+// =====================================================
+
+export function useInternalBalances() {
+  return useQuery({
+    queryKey: p2pKeys.balances(),
+    queryFn: getInternalBalances
+  });
+}
+
+export function useInternalBalance(token: CryptoToken, enabled = true) {
+  return useQuery({
+    queryKey: p2pKeys.balance(token),
+    queryFn: () => getInternalBalance(token),
+    enabled
+  });
+}
+
+// =====================================================
+// USERS
+// =====================================================
+
+export function useNotifications(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: p2pKeys.notifications(userId ?? ''),
+    queryFn: () => getNotifications(userId!),
+    enabled: !!userId
+  });
+}
+
+export function useUserReputation(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: p2pKeys.reputation(userId ?? ''),
+    queryFn: () => getUserReputation(userId!),
+    enabled: !!userId
+  });
+}
+
+export function useTradeCounterparty(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: p2pKeys.counterparty(userId ?? ''),
+    queryFn: () => getTradeCounterparty(userId!),
+    enabled: !!userId
+  });
+}
+
+// =====================================================
+// PAYMENT METHODS
+// =====================================================
+
+// Payment methods are platform config and rarely change
+const PAYMENT_METHODS_STALE_MS = 5 * 60_000;
+
+export function usePaymentMethods(currency: FiatCurrency | 'all') {
+  return useQuery({
+    queryKey: p2pKeys.currencyPaymentMethods(currency),
+    queryFn: () => getPaymentMethods(currency),
+    staleTime: PAYMENT_METHODS_STALE_MS
+  });
+}
+
+export function usePaymentMethodsByIds(ids: string[]) {
+  return useQuery({
+    queryKey: p2pKeys.paymentMethodsByIds(ids),
+    queryFn: () => getPaymentMethodsByIds(ids),
+    staleTime: PAYMENT_METHODS_STALE_MS,
+    enabled: ids.length > 0
+  });
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { getLastSeen, getOnlineUsers, isRecentlySeen, startPresence, subscribeOnlineUsers } from '@/lib/presence';
+
+export interface UserPresence {
+  online: boolean;
+  lastSeenAt: string | null;
+}
+
+/**
+ * Announce the signed-in user as online while the calling component is mounted
+ */
+export function usePresenceTracking(userId: string | null | undefined): void {
+  useEffect(() => {
+    if (!userId) return;
+    return startPresence(userId);
+  }, [userId]);
+}
+
+/**
+ * Ids of all users currently connected
+ */
+export function useOnlineUsers(): ReadonlySet<string> {
+  return useSyncExternalStore(subscribeOnlineUsers, getOnlineUsers);
+}
+
+/**
+ * Online state of one user, with their last-seen time loaded when they are away.
+ * `knownLastSeenAt` skips the lookup when the caller already has it (e.g. from the offer feed).
+ */
+export function useUserPresence(userId: string | null | undefined, knownLastSeenAt?: string | null): UserPresence {
+  const onlineUsers = useOnlineUsers();
+  const [fetched, setFetched] = useState<{ userId: string; lastSeenAt: string | null } | null>(null);
+
+  const live = !!userId && onlineUsers.has(userId);
+  const lastSeenAt = knownLastSeenAt !== undefined
+    ? knownLastSeenAt
+    : fetched && fetched.userId === userId ? fetched.lastSeenAt : null;
+
+  useEffect(() => {
+    if (knownLastSeenAt !== undefined || !userId || live) return;
+
+    let cancelled = false;
+    getLastSeen([userId]).then((seen) => {
+      if (!cancelled) setFetched({ userId, lastSeenAt: seen[userId] ?? null });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, live, knownLastSeenAt]);
+
+  // Fall back to the heartbeat when live presence hasn't synced yet
+  return { online: live || isRecentlySeen(lastSeenAt), lastSeenAt };
+}
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { invalidationsForTradeUpdate, p2pKeys } from '@/lib/query-keys';
+import { mergeTradeRow } from '@/lib/trade-updates';
+import { subscribeNewNotifications, NOTIFICATION_FEED_LIMIT, type P2PNotification } from '@/lib/notifications';
+import { shareTradePaymentDetails, type P2PFiatTrade } from '@/lib/p2p-fiat';
+import { useTradeUpdates, useTradeUpdatesConnection } from '@/hooks/use-trade-updates';
+
+/**
+ * Keep the query cache in step with realtime events for the signed-in user.
+ * Use once near the root; components just read their queries.
+ */
+export function useRealtimeInvalidation(userId: string | null | undefined): void {
+  const queryClient = useQueryClient();
+  useTradeUpdatesConnection(userId);
+
+  useTradeUpdates((update) => {
+    // The changed trade shows at once; its refetch below brings the offer fields up to date
+    if (update.type === 'change') {
+      queryClient.setQueryData<P2PFiatTrade | null>(p2pKeys.trade(update.trade.id), trade =>
+        trade ? mergeTradeRow(trade, update.trade) : trade
+      );
+
+      // A buyer taking our sell ad waits for our payment details; share them right away
+      const { trade } = update;
+      if (trade.seller_id === userId && trade.status === 'pending' && !trade.payment_details_encrypted) {
+        shareTradePaymentDetails(trade.id);
+      }
+    }
+    invalidationsForTradeUpdate(update).forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeNewNotifications(userId, (notification) => {
+      queryClient.setQueryData<P2PNotification[]>(p2pKeys.notifications(userId), notifications =>
+        [notification, ...(notifications ?? [])].slice(0, NOTIFICATION_FEED_LIMIT)
+      );
+      window.Telegram?.WebApp.HapticFeedback.notificationOccurred('success');
+    });
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_PRICE_DEVIATION_WARNING_PERCENT, pairKey, priceDeviationPercent } from '@/lib/p2p-pricing';
+import { getPriceDeviationThreshold, getReferencePrices, type ReferencePrice } from '@/lib/reference-price';
+import type { CryptoToken, FiatCurrency } from '@/lib/p2p-fiat';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+// The threshold is platform config; load it once per session
+let thresholdRequest: Promise<number> | null = null;
+
+// Stable result while no pairs are asked for
+const NO_PRICES: Record<string, ReferencePrice> = {};
+
+export interface PriceDeviation {
+  reference: ReferencePrice | null;
+  deviationPercent: number; // Signed; positive = above the reference
+  threshold: number;
+  exceedsThreshold: boolean;
+}
+
+/**
+ * Reference prices for the given token/fiat pairs keyed by pairKey(),
+ * refreshed periodically so floating offer prices stay live.
+ */
+export function useReferencePrices(
+  pairs: { token: CryptoToken; fiat: FiatCurrency }[]
+): Record<string, ReferencePrice> {
+  const [prices, setPrices] = useState<Record<string, ReferencePrice>>({});
+
+  // Depend on the pair keys so a new array with the same pairs doesn't refetch
+  const keys = Array.from(new Set(pairs.map(p => pairKey(p.token, p.fiat)))).sort().join(',');
+
+  useEffect(() => {
+    if (!keys) return;
+
+    const parsed = keys.split(',').map(key => {
+      const [token, fiat] = key.split('/');
+      return { token: token as CryptoToken, fiat: fiat as FiatCurrency };
+    });
+
+    let cancelled = false;
+    const refresh = async () => {
+      const next = await getReferencePrices(parsed);
+      if (!cancelled) setPrices(next);
+    };
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [keys]);
+
+  return keys ? prices : NO_PRICES;
+}
+
+/**
+ * Reference price for a single pair (null until loaded or when none is available)
+ */
+export function useReferencePrice(
+  token: CryptoToken,
+  fiat: FiatCurrency,
+  enabled = true
+): ReferencePrice | null {
+  const prices = useReferencePrices(enabled ? [{ token, fiat }] : []);
+  return prices[pairKey(token, fiat)] ?? null;
+}
+
+/**
+ * How far a price is from the pair's reference price, and whether that is
+ * far enough to warn the user (threshold from p2p_config)
+ */
+export function usePriceDeviation(
+  token: CryptoToken,
+  fiat: FiatCurrency,
+  price: number
+): PriceDeviation {
+  const reference = useReferencePrice(token, fiat, price > 0);
+  const [threshold, setThreshold] = useState(DEFAULT_PRICE_DEVIATION_WARNING_PERCENT);
+
+  useEffect(() => {
+    thresholdRequest ??= getPriceDeviationThreshold();
+    thresholdRequest.then(setThreshold);
+  }, []);
+
+  const deviationPercent = reference && price > 0 ? priceDeviationPercent(price, reference.price) : 0;
+  return {
+    reference,
+    deviationPercent,
+    threshold,
+    exceedsThreshold: Math.abs(deviationPercent) > threshold
+  };
+}
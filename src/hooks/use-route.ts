@@ -0,0 +1,33 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { canGoBack, getRoute, goBack, subscribeRoute, type Route } from '@/lib/routes';
+
+/**
+ * Current route; re-renders on navigation and browser back/forward
+ */
+export function useRoute(): Route {
+  return useSyncExternalStore(subscribeRoute, getRoute);
+}
+
+/**
+ * Show Telegram's native back button on screens below the dashboard.
+ * Use once near the root, next to useRoute.
+ */
+export function useTelegramBackButton(route: Route): void {
+  const hasBack = canGoBack();
+
+  useEffect(() => {
+    const backButton = window.Telegram?.WebApp.BackButton;
+    if (!backButton) return;
+
+    if (!hasBack) {
+      backButton.hide();
+      return;
+    }
+
+    backButton.onClick(goBack);
+    backButton.show();
+    return () => {
+      backButton.offClick(goBack);
+    };
+  }, [route, hasBack]);
+}
@@ -0,0 +1,38 @@
+import { useEffect, useLayoutEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  getTradeFeedStatus,
+  startTradeUpdates,
+  subscribeTradeFeedStatus,
+  subscribeTradeUpdates,
+  type TradeFeedStatus,
+  type TradeUpdate
+} from '@/lib/trade-updates';
+
+/**
+ * Keep the signed-in user's trade feed connected while the calling component is mounted
+ */
+export function useTradeUpdatesConnection(userId: string | null | undefined): void {
+  useEffect(() => {
+    if (!userId) return;
+    return startTradeUpdates(userId);
+  }, [userId]);
+}
+
+/**
+ * Call `onUpdate` for every change to the user's trades (always the latest callback)
+ */
+export function useTradeUpdates(onUpdate: (update: TradeUpdate) => void): void {
+  const callback = useRef(onUpdate);
+  useLayoutEffect(() => {
+    callback.current = onUpdate;
+  });
+
+  useEffect(() => subscribeTradeUpdates(update => callback.current(update)), []);
+}
+
+/**
+ * Whether trades are live over realtime or falling back to polling
+ */
+export function useTradeFeedStatus(): TradeFeedStatus {
+  return useSyncExternalStore(subscribeTradeFeedStatus, getTradeFeedStatus);
+}
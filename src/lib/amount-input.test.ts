@@ -0,0 +1,41 @@
+import { expect, test, describe } from 'vitest';
+import { amountRangeError, formatAmountInput, numberToAmount, parseAmountInput } from './amount-input';
+
+describe('localized amount input', () => {
+  test('should parse locale separators', () => {
+    expect(parseAmountInput('1,234.5', 2, 'en-US')).toBe('1234.5');
+    expect(parseAmountInput('1.234,5', 2, 'de-DE')).toBe('1234.5');
+    expect(parseAmountInput('12,5', 2, 'tr-TR')).toBe('12.5');
+    expect(parseAmountInput('1 234,5', 2, 'fr-FR')).toBe('1234.5');
+    expect(parseAmountInput('12.', 2, 'en-US')).toBe('12.');
+    expect(parseAmountInput('.5', 2, 'en-US')).toBe('0.5');
+    expect(parseAmountInput('', 2, 'en-US')).toBe('');
+  });
+
+  test('should accept Eastern Arabic and Persian digits', () => {
+    expect(parseAmountInput('١٢٣٫٤٥', 2, 'ar-EG')).toBe('123.45');
+    expect(parseAmountInput('۱۲۰۰۰', 0, 'fa-IR')).toBe('12000');
+    expect(parseAmountInput('۱٬۲۰۰٫۵', 2, 'en-US')).toBe('1200.5');
+  });
+
+  test('should refuse text and extra precision', () => {
+    expect(parseAmountInput('12a', 2, 'en-US')).toBeNull();
+    expect(parseAmountInput('-5', 2, 'en-US')).toBeNull();
+    expect(parseAmountInput('1.234', 2, 'en-US')).toBeNull();
+    expect(parseAmountInput('100.5', 0, 'en-US')).toBeNull();
+  });
+
+  test('should group as typed and round-trip numbers', () => {
+    expect(formatAmountInput('1234567.50', 'en-US')).toBe('1,234,567.50');
+    expect(formatAmountInput('1234.', 'de-DE')).toBe('1.234,');
+    expect(numberToAmount(12.5, 12)).toBe('12.5');
+    expect(numberToAmount(100, 0)).toBe('100');
+  });
+
+  test('should report amounts outside the limits', () => {
+    expect(amountRangeError('5', { min: 10, max: 100 }, 'HEZ', 'en-US')).toBe('Minimum 10 HEZ');
+    expect(amountRangeError('100.01', { min: 10, max: 100 }, 'HEZ', 'en-US')).toBe('Maximum 100 HEZ');
+    expect(amountRangeError('50', { min: 10, max: 100 }, 'HEZ', 'en-US')).toBeNull();
+    expect(amountRangeError('', { min: 10 }, 'HEZ', 'en-US')).toBeNull();
+  });
+});
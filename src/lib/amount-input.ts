@@ -0,0 +1,162 @@
+/**
+ * Localized Amount Input - Parsing and Formatting What Users Type
+ *
+ * @module amount-input
+ * @description Turns typed amounts into plain decimal strings and back
+ *
+ * Users type with their locale's separators ("1.234,5" in German, "1,234.5" in
+ * English) and sometimes in Eastern Arabic (٠١٢) or Persian (۰۱۲) digits. Input
+ * is normalized to a plain decimal string ("1234.5"), the form amounts are kept
+ * in while editing, and shown back grouped for the locale as the user types.
+ * Precision is enforced while typing; min/max are checked with amountRangeError.
+ */
+
+import { compare, decimalToNumber, decimalToString, parseDecimal, toDecimal, type Decimal, type DecimalInput } from '@/lib/decimal';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface AmountSeparators {
+  group: string;
+  decimal: string;
+}
+
+export interface AmountLimits {
+  min?: DecimalInput | null;
+  max?: DecimalInput | null;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+// Eastern Arabic (U+0660) and Persian (U+06F0) digit blocks
+const DIGIT_BLOCKS = [0x0660, 0x06f0];
+
+const ARABIC_DECIMAL = '٫';
+const ARABIC_GROUP = '٬';
+
+// Spaces, including the no-break spaces some locales group with
+const SPACES = /\s/g;
+
+// =====================================================
+// SEPARATORS
+// =====================================================
+
+/**
+ * Group and decimal separators of a locale (the browser's if omitted)
+ */
+export function getSeparators(locale?: string): AmountSeparators {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find(p => p.type === 'group')?.value ?? ',',
+    decimal: parts.find(p => p.type === 'decimal')?.value ?? '.'
+  };
+}
+
+/**
+ * Replace Eastern Arabic and Persian digits with Latin ones
+ */
+export function normalizeDigits(text: string): string {
+  return text.replace(/[٠-٩۰-۹]/g, char => {
+    const code = char.charCodeAt(0);
+    const block = DIGIT_BLOCKS.find(start => code >= start && code <= start + 9) ?? 0;
+    return String(code - block);
+  });
+}
+
+// =====================================================
+// PARSING
+// =====================================================
+
+/**
+ * Position of the decimal point in the text, -1 if there is none.
+ * The locale's decimal separator is one; so is the other of "." and "," when
+ * the locale doesn't use it for grouping (a "." typed in a French or Persian
+ * locale). The locale's group separator never is, so "1,234" stays 1234 in English.
+ */
+function decimalIndex(text: string, separators: AmountSeparators): number {
+  const decimal = text.lastIndexOf(separators.decimal);
+  if (decimal >= 0) return decimal;
+
+  const other = separators.decimal === '.' ? ',' : '.';
+  return other === separators.group ? -1 : text.lastIndexOf(other);
+}
+
+/**
+ * Plain decimal string for what the user typed, e.g. "1.234,5" (de) -> "1234.5".
+ * Partial input is kept as typed ("12." while the decimals are still coming).
+ * Returns null if the text isn't a number or has more than `decimals` decimals.
+ */
+export function parseAmountInput(text: string, decimals: number, locale?: string): string | null {
+  const separators = getSeparators(locale);
+  const normalized = normalizeDigits(text)
+    .replaceAll(ARABIC_DECIMAL, separators.decimal)
+    .replace(SPACES, '');
+
+  const point = decimalIndex(normalized, separators);
+  const whole = (point >= 0 ? normalized.slice(0, point) : normalized)
+    .replaceAll(separators.group, '')
+    .replaceAll(ARABIC_GROUP, '')
+    .replace(/[.,]/g, '');
+  const fraction = point >= 0 ? normalized.slice(point + 1) : null;
+
+  if (!/^\d*$/.test(whole) || (fraction !== null && !/^\d*$/.test(fraction))) return null;
+  if (fraction !== null && (decimals === 0 || fraction.length > decimals)) return null;
+
+  const trimmed = whole.replace(/^0+(?=\d)/, '');
+  return fraction === null ? trimmed : `${trimmed || '0'}.${fraction}`;
+}
+
+/**
+ * Exact value of a plain decimal string, 0 if empty or invalid
+ */
+export function amountToDecimal(value: string): Decimal {
+  return parseDecimal(value) ?? toDecimal(0);
+}
+
+/**
+ * Plain decimal string for a stored amount, e.g. to prefill an amount field
+ */
+export function numberToAmount(value: DecimalInput, decimals: number): string {
+  const text = decimalToString(toDecimal(value, decimals, 'down'));
+  return text.includes('.') ? text.replace(/0+$/, '').replace(/\.$/, '') : text;
+}
+
+// =====================================================
+// FORMATTING
+// =====================================================
+
+/**
+ * A plain decimal string grouped for display in the locale, keeping
+ * a trailing decimal point or zeros the user is still typing
+ */
+export function formatAmountInput(value: string, locale?: string): string {
+  if (value === '') return '';
+  const { group, decimal } = getSeparators(locale);
+  const [whole, fraction] = value.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return fraction === undefined ? grouped : `${grouped}${decimal}${fraction}`;
+}
+
+// =====================================================
+// LIMITS
+// =====================================================
+
+/**
+ * Message if an entered amount is outside its limits, null if it is within them
+ * (or nothing has been entered yet)
+ */
+export function amountRangeError(value: string, limits: AmountLimits, unit: string, locale?: string): string | null {
+  const amount = parseDecimal(value);
+  if (!amount || amount.units === 0n) return null;
+
+  const format = (limit: DecimalInput) =>
+    `${new Intl.NumberFormat(locale, { maximumFractionDigits: 12 }).format(decimalToNumber(toDecimal(limit)))} ${unit}`;
+  if (limits.min && compare(amount, toDecimal(limits.min)) < 0) return `Minimum ${format(limits.min)}`;
+  if (limits.max !== null && limits.max !== undefined && compare(amount, toDecimal(limits.max)) > 0) {
+    return `Maximum ${format(limits.max)}`;
+  }
+  return null;
+}
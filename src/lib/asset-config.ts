@@ -0,0 +1,45 @@
+/**
+ * Asset Config - Loads the Asset Registry from Platform Config
+ *
+ * @module asset-config
+ * @description Reads the `asset_registry` entry of p2p_config and applies it
+ *
+ * The entry holds JSON overrides keyed by code (see AssetConfig). Without it,
+ * or when it can't be read, the built-in defaults from assets stay in effect.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { mergeAssetConfig, setAssetRegistry, type AssetConfig, type AssetRegistry } from '@/lib/assets';
+
+let loadRequest: Promise<AssetRegistry> | null = null;
+
+async function fetchAssetConfig(): Promise<AssetConfig | null> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_config')
+      .select('value')
+      .eq('key', 'asset_registry')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data?.value) return null;
+    return (typeof data.value === 'string' ? JSON.parse(data.value) : data.value) as AssetConfig;
+  } catch (error) {
+    console.error('Get asset registry config error:', error);
+    return null;
+  }
+}
+
+/**
+ * Load the configured registry once per session and make it current
+ */
+export function loadAssetRegistry(): Promise<AssetRegistry> {
+  if (!loadRequest) {
+    loadRequest = fetchAssetConfig().then((config) => {
+      const registry = mergeAssetConfig(config);
+      setAssetRegistry(registry);
+      return registry;
+    });
+  }
+  return loadRequest;
+}
@@ -0,0 +1,35 @@
+import { expect, test, describe } from 'vitest';
+import { getFiatInfo, isCryptoToken, isFiatCurrency, mergeAssetConfig } from './assets';
+
+describe('asset registry', () => {
+  test('should use the defaults without config', () => {
+    const registry = mergeAssetConfig(null);
+    expect(registry.fiats.map(f => f.code).slice(0, 3)).toEqual(['TRY', 'IQD', 'IRR']);
+    expect(registry.tokens.map(t => t.code)).toEqual(['HEZ', 'PEZ']);
+    expect(getFiatInfo('IQD').decimals).toBe(0);
+  });
+
+  test('should apply overrides, config order and ignore unknown codes', () => {
+    const registry = mergeAssetConfig({
+      fiats: [
+        { code: 'EUR', symbol: 'EUR ' },
+        { code: 'XYZ', name: 'Unknown' },
+        { code: 'IRR', enabled: false }
+      ],
+      tokens: [{ code: 'PEZ', minBlockAmount: 1000 }]
+    });
+
+    expect(registry.fiats[0]).toMatchObject({ code: 'EUR', symbol: 'EUR ', decimals: 2 });
+    expect(registry.fiats[1]).toMatchObject({ code: 'IRR', enabled: false });
+    expect(registry.fiats.some(f => f.code === 'XYZ')).toBe(false);
+    expect(registry.fiats).toHaveLength(12);
+    expect(registry.tokens[0]).toMatchObject({ code: 'PEZ', minBlockAmount: 1000 });
+  });
+
+  test('should recognise known codes', () => {
+    expect(isFiatCurrency('SEK')).toBe(true);
+    expect(isFiatCurrency('JPY')).toBe(false);
+    expect(isCryptoToken('HEZ')).toBe(true);
+    expect(isCryptoToken('BTC')).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Asset Registry - Supported Fiat Currencies and Tokens
+ *
+ * @module assets
+ * @description Single source of truth for every fiat currency and crypto token
+ *
+ * The defaults below define which codes exist (and therefore the FiatCurrency
+ * and CryptoToken types). Platform config (see asset-config) can override their
+ * display metadata, precision and limits, reorder them or disable them without
+ * a release. Components read the current registry through useAssets().
+ */
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type RoundingMode = 'half_up' | 'half_even' | 'down';
+
+export interface FiatInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  flag: string;
+  region: string;
+  decimals: number; // Minor units shown and stored (0 for IQD/IRR)
+  rounding: RoundingMode;
+  compactFrom: number | null; // Amounts from this size show compact ("12.5M"), null = never
+  enabled: boolean;
+}
+
+export interface TokenInfo {
+  code: string;
+  name: string;
+  decimals: number; // On-chain precision
+  displayDecimals: number;
+  native: boolean; // Chain's native token (no asset id)
+  minOrderAmount: number;
+  minBlockAmount: number; // Minimum for OTC block trades
+  enabled: boolean;
+}
+
+export interface AssetRegistry {
+  fiats: FiatInfo[];
+  tokens: TokenInfo[];
+}
+
+// Shape of the `asset_registry` config entry: partial overrides by code
+export interface AssetConfig {
+  fiats?: (Partial<FiatInfo> & { code: string })[];
+  tokens?: (Partial<TokenInfo> & { code: string })[];
+}
+
+// =====================================================
+// DEFAULTS
+// =====================================================
+
+// Fiat currencies including Kurdish Diaspora countries
+export const DEFAULT_FIATS = [
+  // Primary regions (Kurdistan & neighboring)
+  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', flag: '🇹🇷', region: 'Bakur', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'IQD', name: 'Iraqi Dinar', symbol: 'د.ع', flag: '🇮🇶', region: 'Başûr', decimals: 0, rounding: 'half_up', compactFrom: 1_000_000, enabled: true },
+  { code: 'IRR', name: 'Iranian Rial', symbol: '﷼', flag: '🇮🇷', region: 'Rojhilat', decimals: 0, rounding: 'half_up', compactFrom: 1_000_000, enabled: true },
+  // Eurozone diaspora
+  { code: 'EUR', name: 'Euro', symbol: '€', flag: '🇪🇺', region: 'EU', decimals: 2, rounding: 'half_even', compactFrom: null, enabled: true },
+  // Other diaspora regions
+  { code: 'USD', name: 'US Dollar', symbol: '$', flag: '🇺🇸', region: 'USA', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'GBP', name: 'British Pound', symbol: '£', flag: '🇬🇧', region: 'UK', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'SEK', name: 'Swedish Krona', symbol: 'kr', flag: '🇸🇪', region: 'Sweden', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr.', flag: '🇨🇭', region: 'Switzerland', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'NOK', name: 'Norwegian Krone', symbol: 'kr', flag: '🇳🇴', region: 'Norway', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'DKK', name: 'Danish Krone', symbol: 'kr', flag: '🇩🇰', region: 'Denmark', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', flag: '🇦🇺', region: 'Australia', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', flag: '🇨🇦', region: 'Canada', decimals: 2, rounding: 'half_up', compactFrom: null, enabled: true }
+] as const satisfies readonly FiatInfo[];
+
+export const DEFAULT_TOKENS = [
+  { code: 'HEZ', name: 'Hez', decimals: 12, displayDecimals: 4, native: true, minOrderAmount: 0, minBlockAmount: 10000, enabled: true },
+  { code: 'PEZ', name: 'Pez', decimals: 12, displayDecimals: 4, native: false, minOrderAmount: 0, minBlockAmount: 50000, enabled: true }
+] as const satisfies readonly TokenInfo[];
+
+export type FiatCurrency = (typeof DEFAULT_FIATS)[number]['code'];
+
+export type CryptoToken = (typeof DEFAULT_TOKENS)[number]['code'];
+
+// =====================================================
+// CONFIG MERGING
+// =====================================================
+
+function mergeEntries<T extends { code: string }>(defaults: readonly T[], overrides: (Partial<T> & { code: string })[] = []): T[] {
+  const byCode = new Map(overrides.map(o => [o.code, o]));
+  const known = new Set(defaults.map(d => d.code));
+
+  // Overrides listed in config come first, in config order; the rest keep their default order
+  const ordered = [
+    ...overrides.filter(o => known.has(o.code)).map(o => o.code),
+    ...defaults.map(d => d.code).filter(code => !byCode.has(code))
+  ];
+
+  return ordered.map(code => {
+    const base = defaults.find(d => d.code === code)!;
+    return { ...base, ...byCode.get(code), code } as T;
+  });
+}
+
+/**
+ * Apply config overrides to the default registry.
+ * Codes unknown to this build are ignored, since nothing else could handle them.
+ */
+export function mergeAssetConfig(config: AssetConfig | null | undefined): AssetRegistry {
+  return {
+    fiats: mergeEntries<FiatInfo>(DEFAULT_FIATS, config?.fiats),
+    tokens: mergeEntries<TokenInfo>(DEFAULT_TOKENS, config?.tokens)
+  };
+}
+
+// =====================================================
+// CURRENT REGISTRY
+// =====================================================
+
+let registry: AssetRegistry = mergeAssetConfig(null);
+const listeners = new Set<() => void>();
+
+export function getAssetRegistry(): AssetRegistry {
+  return registry;
+}
+
+export function setAssetRegistry(next: AssetRegistry): void {
+  registry = next;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeAssetRegistry(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Currencies users can trade in, in display order
+ */
+export function getEnabledFiats(): FiatInfo[] {
+  return registry.fiats.filter(f => f.enabled);
+}
+
+/**
+ * Tokens users can trade, in display order
+ */
+export function getEnabledTokens(): TokenInfo[] {
+  return registry.tokens.filter(t => t.enabled);
+}
+
+/**
+ * Metadata for a fiat code; unknown codes get a neutral 2-decimal entry
+ */
+export function getFiatInfo(code: string): FiatInfo {
+  return registry.fiats.find(f => f.code === code) ?? {
+    code,
+    name: code,
+    symbol: '',
+    flag: '',
+    region: '',
+    decimals: 2,
+    rounding: 'half_up',
+    compactFrom: null,
+    enabled: false
+  };
+}
+
+/**
+ * Metadata for a token code; unknown codes get a neutral entry
+ */
+export function getTokenInfo(code: string): TokenInfo {
+  return registry.tokens.find(t => t.code === code) ?? {
+    code,
+    name: code,
+    decimals: 12,
+    displayDecimals: 4,
+    native: false,
+    minOrderAmount: 0,
+    minBlockAmount: 0,
+    enabled: false
+  };
+}
+
+export function isFiatCurrency(code: string): code is FiatCurrency {
+  return DEFAULT_FIATS.some(f => f.code === code);
+}
+
+export function isCryptoToken(code: string): code is CryptoToken {
+  return DEFAULT_TOKENS.some(t => t.code === code);
+}
@@ -0,0 +1,47 @@
+import { expect, test, describe } from 'vitest';
+import {
+  add,
+  compare,
+  decimalToNumber,
+  decimalToString,
+  divide,
+  multiply,
+  parseDecimal,
+  rescale,
+  subtract,
+  toDecimal
+} from './decimal';
+
+describe('fixed-point decimals', () => {
+  test('should parse plain decimals and reject anything else', () => {
+    expect(decimalToString(parseDecimal('12.5', 2)!)).toBe('12.50');
+    expect(decimalToString(parseDecimal('-.25')!)).toBe('-0.25');
+    expect(parseDecimal('1e5')).toBeNull();
+    expect(parseDecimal('1,000')).toBeNull();
+    expect(parseDecimal('.')).toBeNull();
+    expect(decimalToString(toDecimal(1e-7))).toBe('0.0000001');
+  });
+
+  test('should add and compare without float error', () => {
+    const sum = add(toDecimal(0.1), toDecimal(0.2));
+    expect(decimalToNumber(sum)).toBe(0.3);
+    expect(compare(sum, toDecimal('0.30'))).toBe(0);
+    expect(decimalToNumber(subtract(toDecimal(1.1), toDecimal(0.3)))).toBe(0.8);
+  });
+
+  test('should round with each mode', () => {
+    expect(decimalToString(rescale(toDecimal('2.5'), 0, 'half_up'))).toBe('3');
+    expect(decimalToString(rescale(toDecimal('2.5'), 0, 'half_even'))).toBe('2');
+    expect(decimalToString(rescale(toDecimal('3.5'), 0, 'half_even'))).toBe('4');
+    expect(decimalToString(rescale(toDecimal('2.99'), 0, 'down'))).toBe('2');
+    expect(decimalToString(rescale(toDecimal('-2.5'), 0, 'half_up'))).toBe('-3');
+  });
+
+  test('should multiply and divide to the requested scale', () => {
+    expect(decimalToString(multiply(toDecimal(1.15), toDecimal(3), 2))).toBe('3.45');
+    expect(decimalToString(divide(toDecimal(10), toDecimal(3), 4, 'down'))).toBe('3.3333');
+    expect(decimalToString(divide(toDecimal(2), toDecimal(3), 2))).toBe('0.67');
+    expect(decimalToString(divide(toDecimal(-1), toDecimal('0.4'), 1))).toBe('-2.5');
+    expect(() => divide(toDecimal(1), toDecimal(0), 2)).toThrow();
+  });
+});
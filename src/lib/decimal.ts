@@ -0,0 +1,201 @@
+/**
+ * Fixed-Point Decimal Arithmetic
+ *
+ * @module decimal
+ * @description Exact arithmetic for ledger amounts at a fixed number of decimals
+ *
+ * A Decimal is an integer count of minor units (bigint) plus its scale, so
+ * 0.1 + 0.2 is exactly 0.3 and a limit check never fails by an epsilon.
+ * Addition and subtraction are exact; multiplication, division and rescaling
+ * take the target scale and rounding mode explicitly. Amounts cross the API
+ * boundary as numbers or strings; see the amount helpers in money for the
+ * registry-aware (per token / per fiat) wrappers.
+ */
+
+import type { RoundingMode } from '@/lib/assets';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface Decimal {
+  units: bigint; // value * 10^scale
+  scale: number;
+}
+
+export type DecimalInput = Decimal | number | string;
+
+// =====================================================
+// CONSTRUCTION
+// =====================================================
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function isDecimal(value: DecimalInput): value is Decimal {
+  return typeof value === 'object';
+}
+
+/**
+ * Divide, rounding the quotient with the given mode (divisor must be positive)
+ */
+function divideRounded(numerator: bigint, divisor: bigint, rounding: RoundingMode): bigint {
+  const quotient = numerator / divisor; // truncates toward zero
+  const remainder = numerator % divisor;
+  if (remainder === 0n || rounding === 'down') return quotient;
+
+  const sign = numerator < 0n ? -1n : 1n;
+  const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (twice < divisor) return quotient;
+  if (twice > divisor) return quotient + sign;
+  if (rounding === 'half_even' && quotient % 2n === 0n) return quotient;
+  return quotient + sign;
+}
+
+/**
+ * Parse a plain decimal string ("12", "-0.5", ".25") at the given scale, or at
+ * its own number of decimals if no scale is given.
+ * Returns null for anything else (exponents, grouping separators, empty input).
+ */
+export function parseDecimal(input: string, scale?: number, rounding: RoundingMode = 'half_up'): Decimal | null {
+  const match = DECIMAL_PATTERN.exec(input.trim());
+  if (!match) return null;
+
+  const [, sign, whole = '', fraction = ''] = match;
+  if (whole === '' && fraction === '') return null;
+
+  const units = BigInt(`${whole}${fraction}` || '0') * (sign === '-' ? -1n : 1n);
+  const value = { units, scale: fraction.length };
+  return scale === undefined ? value : rescale(value, scale, rounding);
+}
+
+/**
+ * "1.5e-7" -> "0.00000015", keeping the digits of the shortest number form
+ */
+function expandExponent(text: string): string {
+  const [mantissa, exponent] = text.toLowerCase().split('e');
+  const sign = mantissa.startsWith('-') ? '-' : '';
+  const [whole, fraction = ''] = mantissa.replace(/^[+-]/, '').split('.');
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent);
+
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Decimal from a stored number, string or Decimal, exact unless a smaller scale
+ * is asked for. Numbers are read by their shortest round-trip form, so 0.1 is
+ * taken as exactly 0.1.
+ */
+export function toDecimal(value: DecimalInput, scale?: number, rounding: RoundingMode = 'half_up'): Decimal {
+  if (isDecimal(value)) return scale === undefined ? value : rescale(value, scale, rounding);
+
+  let text = String(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Invalid amount: ${value}`);
+    if (/e/i.test(text)) text = expandExponent(text);
+  }
+
+  const parsed = parseDecimal(text, scale, rounding);
+  if (!parsed) throw new Error(`Invalid amount: ${value}`);
+  return parsed;
+}
+
+/**
+ * Same value at another scale, rounded if decimals are dropped
+ */
+export function rescale(value: Decimal, scale: number, rounding: RoundingMode = 'half_up'): Decimal {
+  if (scale === value.scale) return value;
+  if (scale > value.scale) return { units: value.units * pow10(scale - value.scale), scale };
+  return { units: divideRounded(value.units, pow10(value.scale - scale), rounding), scale };
+}
+
+function align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [rescale(a, scale).units, rescale(b, scale).units, scale];
+}
+
+// =====================================================
+// ARITHMETIC
+// =====================================================
+
+export function add(a: Decimal, b: Decimal): Decimal {
+  const [x, y, scale] = align(a, b);
+  return { units: x + y, scale };
+}
+
+export function subtract(a: Decimal, b: Decimal): Decimal {
+  const [x, y, scale] = align(a, b);
+  return { units: x - y, scale };
+}
+
+/**
+ * Product rounded to the given scale
+ */
+export function multiply(a: Decimal, b: Decimal, scale: number, rounding: RoundingMode = 'half_up'): Decimal {
+  return rescale({ units: a.units * b.units, scale: a.scale + b.scale }, scale, rounding);
+}
+
+/**
+ * Quotient rounded to the given scale
+ */
+export function divide(a: Decimal, b: Decimal, scale: number, rounding: RoundingMode = 'half_up'): Decimal {
+  if (b.units === 0n) throw new Error('Division by zero');
+
+  // a/b = (a.units / b.units) * 10^(b.scale - a.scale); shift so the result lands on `scale`
+  const shift = scale + b.scale - a.scale;
+  let numerator = shift >= 0 ? a.units * pow10(shift) : a.units;
+  let divisor = shift >= 0 ? b.units : b.units * pow10(-shift);
+  if (divisor < 0n) {
+    numerator = -numerator;
+    divisor = -divisor;
+  }
+  return { units: divideRounded(numerator, divisor, rounding), scale };
+}
+
+// =====================================================
+// COMPARISON
+// =====================================================
+
+/**
+ * -1, 0 or 1 as a is less than, equal to or greater than b
+ */
+export function compare(a: Decimal, b: Decimal): number {
+  const [x, y] = align(a, b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export function isZero(value: Decimal): boolean {
+  return value.units === 0n;
+}
+
+export function isNegative(value: Decimal): boolean {
+  return value.units < 0n;
+}
+
+// =====================================================
+// OUTPUT
+// =====================================================
+
+/**
+ * Plain decimal string with exactly `scale` decimals, e.g. "12.50"
+ */
+export function decimalToString(value: Decimal): string {
+  const negative = value.units < 0n;
+  const digits = (negative ? -value.units : value.units).toString().padStart(value.scale + 1, '0');
+  const whole = digits.slice(0, digits.length - value.scale);
+  const fraction = digits.slice(digits.length - value.scale);
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Nearest number, for storage and display
+ */
+export function decimalToNumber(value: Decimal): number {
+  return Number(decimalToString(value));
+}
@@ -0,0 +1,89 @@
+import { expect, test, describe } from 'vitest';
+import { decimalToNumber } from './decimal';
+import {
+  buildFillPlan,
+  createQuote,
+  pickPaymentMethod,
+  validateQuote,
+  QUOTE_TTL_MS,
+  type RoutableOffer,
+  type TakerProfile,
+  type FillPlan
+} from './express-routing';
+
+const taker: TakerProfile = { userId: 'me', completedTrades: 3, reputationScore: 80 };
+
+function offer(id: string, price: number, remaining: number, extra: Partial<RoutableOffer> = {}): RoutableOffer {
+  return { id, seller_id: `owner-${id}`, price, remaining_amount: remaining, payment_method_ids: ['bank'], ...extra };
+}
+
+function legAmounts(plan: FillPlan): [string, number][] {
+  return plan.legs.map(l => [l.offerId, decimalToNumber(l.cryptoAmount)]);
+}
+
+describe('express routing', () => {
+  test('should fill from the cheapest offers when buying', () => {
+    const plan = buildFillPlan(
+      [offer('a', 12, 10), offer('b', 10, 5), offer('c', 11, 10)],
+      taker,
+      { side: 'buy', amount: 8, unit: 'crypto' }
+    );
+    expect(legAmounts(plan)).toEqual([['b', 5], ['c', 3]]);
+    expect(decimalToNumber(plan.fiatAmount)).toBe(83);
+    expect(decimalToNumber(plan.blendedRate)).toBeCloseTo(10.375);
+    expect(plan.complete).toBe(true);
+  });
+
+  test('should fill from the highest bids when selling and respect the balance', () => {
+    const plan = buildFillPlan(
+      [offer('a', 9, 10), offer('b', 11, 10)],
+      taker,
+      { side: 'sell', amount: 15, unit: 'crypto', maxCryptoAmount: 12 }
+    );
+    expect(legAmounts(plan)).toEqual([['b', 10], ['a', 2]]);
+    expect(plan.complete).toBe(false);
+  });
+
+  test('should convert fiat requests per offer price', () => {
+    const plan = buildFillPlan([offer('a', 10, 3), offer('b', 20, 10)], taker, { side: 'buy', amount: 70, unit: 'fiat' });
+    expect(legAmounts(plan)).toEqual([['a', 3], ['b', 2]]);
+    expect(decimalToNumber(plan.fiatAmount)).toBe(70);
+  });
+
+  test('should respect order limits, eligibility and payment preference', () => {
+    const plan = buildFillPlan(
+      [
+        offer('own', 1, 10, { seller_id: 'me' }),
+        offer('vip', 2, 10, { min_buyer_completed_trades: 50 }),
+        offer('cash', 3, 10, { payment_method_ids: ['cash'] }),
+        offer('big', 4, 10, { min_order_amount: 6 }),
+        offer('capped', 5, 10, { max_order_amount: 2 }),
+        offer('rest', 6, 10)
+      ],
+      taker,
+      { side: 'buy', amount: 5, unit: 'crypto', paymentMethodIds: ['bank'] }
+    );
+    expect(legAmounts(plan)).toEqual([['capped', 2], ['rest', 3]]);
+  });
+
+  test('should pick the first preferred method the offer accepts', () => {
+    const multi = offer('m', 1, 1, { payment_method_ids: ['bank', 'mobile'] });
+    expect(pickPaymentMethod(multi)).toBe('bank');
+    expect(pickPaymentMethod(multi, ['cash', 'mobile'])).toBe('mobile');
+    expect(pickPaymentMethod(multi, ['cash'])).toBeNull();
+  });
+
+  test('should reject quotes that expired or whose offers changed', () => {
+    const offers = [offer('a', 10, 5), offer('b', 11, 5)];
+    const plan = buildFillPlan(offers, taker, { side: 'buy', amount: 8, unit: 'crypto' });
+    const now = Date.parse('2026-01-01T00:00:00.000Z');
+    const quote = createQuote(plan, now);
+
+    expect(validateQuote(quote, offers, now + 1000).valid).toBe(true);
+    expect(validateQuote(quote, offers, now + QUOTE_TTL_MS).valid).toBe(false);
+    expect(validateQuote(quote, [offers[0]], now).valid).toBe(false);
+    expect(validateQuote(quote, [offers[0], offer('b', 11, 2)], now).valid).toBe(false);
+    expect(validateQuote(quote, [offers[0], offer('b', 11.03, 5)], now).valid).toBe(true);
+    expect(validateQuote(quote, [offers[0], offer('b', 11.5, 5)], now).valid).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Express Order Routing - Fill Plans Across Several Offers
+ *
+ * @module express-routing
+ * @description Splits an Express order over the best eligible offers
+ *
+ * Offers are taken best price first (lowest for buying, highest for selling).
+ * Each leg respects the offer's remaining amount, min/max order size, the
+ * taker's eligibility (reputation requirements, not their own offer) and the
+ * taker's payment method preference. The plan reports the blended rate over all legs.
+ * Leg amounts are exact at the token's and fiat's precision (see money).
+ */
+
+import { add, compare, isZero, subtract, toDecimal, type Decimal, type DecimalInput } from '@/lib/decimal';
+import { addCrypto, cryptoForFiat, fiatTotal, roundCrypto, subtractCrypto, unitPrice } from '@/lib/money';
+import { getFiatInfo } from '@/lib/assets';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type ExpressSide = 'buy' | 'sell'; // From the taker's point of view
+
+export type AmountUnit = 'crypto' | 'fiat';
+
+export interface RoutableOffer {
+  id: string;
+  seller_id: string; // Offer owner
+  price: number; // Effective price per unit (floating offers already resolved)
+  remaining_amount: number;
+  min_order_amount?: number | null;
+  max_order_amount?: number | null;
+  min_buyer_completed_trades?: number;
+  min_buyer_reputation?: number;
+  payment_method_ids: string[];
+}
+
+export interface TakerProfile {
+  userId: string;
+  completedTrades: number;
+  reputationScore: number;
+}
+
+export interface FillRequest {
+  side: ExpressSide;
+  amount: DecimalInput;
+  unit: AmountUnit;
+  paymentMethodIds?: string[]; // Preferred methods; empty = any
+  maxCryptoAmount?: DecimalInput; // e.g. the seller's available balance
+  token?: string; // Precision of crypto amounts
+  fiat?: string; // Precision and rounding of fiat amounts
+}
+
+export interface FillLeg {
+  offerId: string;
+  ownerId: string;
+  pricePerUnit: number;
+  cryptoAmount: Decimal;
+  fiatAmount: Decimal;
+  paymentMethodId: string;
+}
+
+export interface FillPlan {
+  side: ExpressSide;
+  legs: FillLeg[];
+  cryptoAmount: Decimal;
+  fiatAmount: Decimal;
+  blendedRate: Decimal; // Fiat per crypto over all legs
+  complete: boolean; // false when eligible liquidity could not cover the request
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+// More legs means more counterparties to pay; keep grouped orders manageable
+export const MAX_EXPRESS_LEGS = 5;
+
+// =====================================================
+// ROUTING
+// =====================================================
+
+function smallest(values: Decimal[]): Decimal {
+  return values.reduce((min, value) => (compare(value, min) < 0 ? value : min));
+}
+
+/**
+ * Whether the taker may trade with an offer at all
+ */
+export function isEligibleOffer(offer: RoutableOffer, taker: TakerProfile): boolean {
+  if (offer.seller_id === taker.userId) return false;
+  if ((offer.min_buyer_completed_trades ?? 0) > taker.completedTrades) return false;
+  if ((offer.min_buyer_reputation ?? 0) > taker.reputationScore) return false;
+  return true;
+}
+
+/**
+ * Payment method to use with an offer: the first preferred method it accepts,
+ * or its primary method when the taker has no preference. Null if incompatible.
+ */
+export function pickPaymentMethod(offer: RoutableOffer, preferred: string[] = []): string | null {
+  if (preferred.length === 0) return offer.payment_method_ids[0] ?? null;
+  return preferred.find(id => offer.payment_method_ids.includes(id)) ?? null;
+}
+
+/**
+ * Build a fill plan for an Express order
+ */
+export function buildFillPlan(offers: RoutableOffer[], taker: TakerProfile, request: FillRequest): FillPlan {
+  const sorted = offers
+    .filter(offer => offer.price > 0 && offer.remaining_amount > 0 && isEligibleOffer(offer, taker))
+    .sort((a, b) => (request.side === 'buy' ? a.price - b.price : b.price - a.price));
+
+  const legs: FillLeg[] = [];
+  const zero = toDecimal(0);
+  let remaining = toDecimal(request.amount); // In the requested unit
+  let cryptoBudget = request.maxCryptoAmount !== undefined ? toDecimal(request.maxCryptoAmount) : null;
+
+  for (const offer of sorted) {
+    if (compare(remaining, zero) <= 0 || legs.length >= MAX_EXPRESS_LEGS) break;
+
+    const paymentMethodId = pickPaymentMethod(offer, request.paymentMethodIds);
+    if (!paymentMethodId) continue;
+
+    const wantedCrypto = request.unit === 'fiat' ? cryptoForFiat(remaining, offer.price, request.token) : remaining;
+    const limits = [wantedCrypto, toDecimal(offer.remaining_amount)];
+    if (offer.max_order_amount) limits.push(toDecimal(offer.max_order_amount));
+    if (cryptoBudget) limits.push(cryptoBudget);
+    const cryptoAmount = roundCrypto(smallest(limits), request.token);
+
+    if (compare(cryptoAmount, zero) <= 0) continue;
+    if (offer.min_order_amount && compare(cryptoAmount, toDecimal(offer.min_order_amount)) < 0) continue;
+
+    const fiatAmount = fiatTotal(cryptoAmount, offer.price, request.fiat);
+    legs.push({
+      offerId: offer.id,
+      ownerId: offer.seller_id,
+      pricePerUnit: offer.price,
+      cryptoAmount,
+      fiatAmount,
+      paymentMethodId
+    });
+
+    remaining = subtract(remaining, request.unit === 'fiat' ? fiatAmount : cryptoAmount);
+    if (cryptoBudget) cryptoBudget = subtractCrypto(cryptoBudget, cryptoAmount, request.token);
+  }
+
+  const cryptoAmount = legs.reduce((sum, leg) => addCrypto(sum, leg.cryptoAmount, request.token), zero);
+  const fiatAmount = legs.reduce((sum, leg) => add(sum, leg.fiatAmount), zero);
+
+  // A fiat leftover below one minor unit (from rounding crypto down) doesn't make a plan incomplete
+  const tolerance: Decimal = request.unit === 'fiat' ? { units: 1n, scale: getFiatInfo(request.fiat ?? '').decimals } : zero;
+
+  return {
+    side: request.side,
+    legs,
+    cryptoAmount,
+    fiatAmount,
+    blendedRate: isZero(cryptoAmount) ? zero : unitPrice(fiatAmount, cryptoAmount, request.fiat),
+    complete: legs.length > 0 && compare(remaining, tolerance) <= 0
+  };
+}
+
+// =====================================================
+// QUOTES
+// =====================================================
+
+export interface ExpressQuote {
+  id: string;
+  plan: FillPlan;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type QuoteCheck = { valid: true } | { valid: false; reason: string };
+
+// How long a quote is held before it must be refreshed
+export const QUOTE_TTL_MS = 30_000;
+
+// Maximum price change of any quoted offer before execution is refused
+export const QUOTE_PRICE_TOLERANCE_PERCENT = 0.5;
+
+/**
+ * Hold a fill plan as a quote for a short time
+ */
+export function createQuote(plan: FillPlan, now: number = Date.now()): ExpressQuote {
+  return {
+    id: crypto.randomUUID(),
+    plan,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + QUOTE_TTL_MS).toISOString()
+  };
+}
+
+/**
+ * Check a quote against the current state of its offers before executing it.
+ * Refuses expired quotes, offers that are gone or can no longer fill their leg,
+ * and prices that moved more than the tolerance in either direction.
+ */
+export function validateQuote(
+  quote: ExpressQuote,
+  currentOffers: RoutableOffer[],
+  now: number = Date.now(),
+  tolerancePercent: number = QUOTE_PRICE_TOLERANCE_PERCENT
+): QuoteCheck {
+  if (now >= new Date(quote.expiresAt).getTime()) {
+    return { valid: false, reason: 'Quote expired. Refresh to get a new rate.' };
+  }
+
+  for (const leg of quote.plan.legs) {
+    const offer = currentOffers.find(o => o.id === leg.offerId);
+    if (!offer) {
+      return { valid: false, reason: 'An offer in this quote is no longer available. Refresh the quote.' };
+    }
+    if (compare(toDecimal(offer.remaining_amount), leg.cryptoAmount) < 0) {
+      return { valid: false, reason: 'An offer in this quote no longer has enough volume. Refresh the quote.' };
+    }
+
+    const change = Math.abs(offer.price - leg.pricePerUnit) / leg.pricePerUnit * 100;
+    if (change > tolerancePercent) {
+      return { valid: false, reason: 'Prices moved since this quote. Refresh to see the new rate.' };
+    }
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,26 @@
+import { expect, test, describe } from 'vitest';
+import { decimalToString } from './decimal';
+import { fromDisplayAmount, getDisplayUnit, shouldCompact, toDisplayAmount } from './fiat-display';
+
+const toman = { irrUnit: 'toman', compactLarge: true } as const;
+const rial = { irrUnit: 'rial', compactLarge: false } as const;
+
+describe('fiat display preferences', () => {
+  test('should convert IRR between rial and toman only', () => {
+    expect(getDisplayUnit('IRR', toman).code).toBe('Toman');
+    expect(getDisplayUnit('IRR', rial).code).toBe('IRR');
+    expect(getDisplayUnit('IQD', toman).code).toBe('IQD');
+    expect(toDisplayAmount(1_500_005, 'IRR', undefined, toman)).toBe(150_000.5);
+    expect(toDisplayAmount(1_500_005, 'IRR', undefined, rial)).toBe(1_500_005);
+    expect(toDisplayAmount(152, 'IRR', 2, toman)).toBe(15.2);
+    expect(decimalToString(fromDisplayAmount(150_000, 'IRR', toman))).toBe('1500000');
+    expect(decimalToString(fromDisplayAmount(150_000, 'IRR', rial))).toBe('150000');
+  });
+
+  test('should compact only large IRR and IQD amounts when enabled', () => {
+    expect(shouldCompact(2_000_000, 'IQD', toman)).toBe(true);
+    expect(shouldCompact(999_999, 'IRR', toman)).toBe(false);
+    expect(shouldCompact(2_000_000, 'EUR', toman)).toBe(false);
+    expect(shouldCompact(2_000_000, 'IQD', rial)).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Fiat Display Preferences - Rial or Toman, Compact Large Amounts
+ *
+ * @module fiat-display
+ * @description Per-user choice of how fiat amounts are shown, never how they are stored
+ *
+ * Iranian users usually think in toman (10 rial), so IRR can be displayed and
+ * entered in toman. Stored amounts, prices and everything sent to the backend
+ * stay in the base unit (rial); only formatting and amount inputs convert.
+ * Currencies with a `compactFrom` size in the asset registry (IRR, IQD) show
+ * large amounts compact ("12.5M") unless the user turns that off.
+ *
+ * Preferences are kept per user in localStorage and held in a small store so
+ * the formatters in money can read them without being passed around.
+ */
+
+import { decimalToNumber, divide, multiply, toDecimal, type Decimal, type DecimalInput } from '@/lib/decimal';
+import { getFiatInfo } from '@/lib/assets';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type IrrUnit = 'rial' | 'toman';
+
+export interface FiatDisplayPreferences {
+  irrUnit: IrrUnit;
+  compactLarge: boolean; // Compact amounts from the currency's compactFrom size
+}
+
+export interface FiatDisplayUnit {
+  code: string; // Shown after amounts, e.g. "IRR" or "Toman"
+  symbol: string;
+  factor: number; // Base units per display unit
+  decimals: number; // Precision that keeps every base-unit amount exact in this unit
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const DEFAULT_FIAT_DISPLAY: FiatDisplayPreferences = {
+  irrUnit: 'rial',
+  compactLarge: true
+};
+
+// No symbol: "تومان" reads after the number, so toman amounts always show the unit name
+// 1 rial is 0.1 toman, so toman needs one decimal
+const TOMAN: FiatDisplayUnit = { code: 'Toman', symbol: '', factor: 10, decimals: 1 };
+
+const storageKey = (userId: string) => `p2p_fiat_display_${userId}`;
+
+// =====================================================
+// CURRENT PREFERENCES
+// =====================================================
+
+let preferences: FiatDisplayPreferences = DEFAULT_FIAT_DISPLAY;
+const listeners = new Set<() => void>();
+
+export function getFiatDisplay(): FiatDisplayPreferences {
+  return preferences;
+}
+
+export function setFiatDisplay(next: FiatDisplayPreferences): void {
+  preferences = next;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeFiatDisplay(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// =====================================================
+// STORAGE
+// =====================================================
+
+/**
+ * The user's saved preferences, defaults for anything missing
+ */
+export function loadFiatDisplay(userId: string): FiatDisplayPreferences {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    const parsed = stored ? JSON.parse(stored) : {};
+    return {
+      irrUnit: parsed.irrUnit === 'toman' ? 'toman' : 'rial',
+      compactLarge: typeof parsed.compactLarge === 'boolean' ? parsed.compactLarge : DEFAULT_FIAT_DISPLAY.compactLarge
+    };
+  } catch {
+    return DEFAULT_FIAT_DISPLAY;
+  }
+}
+
+export function saveFiatDisplay(userId: string, next: FiatDisplayPreferences): void {
+  localStorage.setItem(storageKey(userId), JSON.stringify(next));
+}
+
+// =====================================================
+// UNITS
+// =====================================================
+
+/**
+ * Unit a currency is displayed in under the given preferences
+ */
+export function getDisplayUnit(
+  currency: string,
+  prefs: FiatDisplayPreferences = preferences
+): FiatDisplayUnit {
+  if (currency === 'IRR' && prefs.irrUnit === 'toman') return TOMAN;
+  const info = getFiatInfo(currency);
+  return { code: info.code, symbol: info.symbol, factor: 1, decimals: info.decimals };
+}
+
+/**
+ * Base-unit amount in the display unit, rounded to the display unit's precision
+ * (or to `decimals`, e.g. for unit prices)
+ */
+export function toDisplayAmount(
+  amount: DecimalInput,
+  currency: string,
+  decimals?: number,
+  prefs: FiatDisplayPreferences = preferences
+): number {
+  const unit = getDisplayUnit(currency, prefs);
+  if (unit.factor === 1) return decimalToNumber(toDecimal(amount));
+  const scale = decimals ?? unit.decimals;
+  return decimalToNumber(divide(toDecimal(amount), toDecimal(unit.factor), scale, getFiatInfo(currency).rounding));
+}
+
+/**
+ * Amount entered in the display unit, back in the base unit for storage
+ */
+export function fromDisplayAmount(
+  amount: DecimalInput,
+  currency: string,
+  prefs: FiatDisplayPreferences = preferences
+): Decimal {
+  const { factor } = getDisplayUnit(currency, prefs);
+  const value = toDecimal(amount);
+  if (factor === 1) return value;
+  return multiply(value, toDecimal(factor), value.scale);
+}
+
+/**
+ * Whether an amount (in base units) is large enough to show compact
+ */
+export function shouldCompact(
+  amount: DecimalInput,
+  currency: string,
+  prefs: FiatDisplayPreferences = preferences
+): boolean {
+  const { compactFrom } = getFiatInfo(currency);
+  return prefs.compactLarge && compactFrom !== null && Math.abs(decimalToNumber(toDecimal(amount))) >= compactFrom;
+}
@@ -0,0 +1,39 @@
+import { expect, test, describe } from 'vitest';
+import { decodeFilters, encodeFilters, hasFilterParams, mergeFilterParams } from './filter-params';
+import { DEFAULT_FILTERS, type P2PFilters } from '@/components/p2p/types';
+
+describe('filter params', () => {
+  test('should leave default filters out of the URL', () => {
+    expect(encodeFilters(DEFAULT_FILTERS).toString()).toBe('');
+    expect(hasFilterParams(new URLSearchParams('session_token=x'))).toBe(false);
+  });
+
+  test('should round-trip changed filters', () => {
+    const filters: P2PFilters = {
+      ...DEFAULT_FILTERS,
+      token: 'HEZ',
+      fiatCurrency: 'EUR',
+      paymentMethods: ['a', 'b'],
+      minAmount: 10,
+      merchantTiers: ['super'],
+      minCompletionRate: 90,
+      onlineOnly: true,
+      sortBy: 'score',
+      sortOrder: 'desc'
+    };
+    const params = encodeFilters(filters);
+    expect(hasFilterParams(params)).toBe(true);
+    expect(decodeFilters(params)).toEqual(filters);
+  });
+
+  test('should fall back to defaults for invalid values', () => {
+    const filters = decodeFilters(new URLSearchParams('token=BTC&fiat=euro&min=-5&rate=150&tier=gold,super&sort=random'));
+    expect(filters).toEqual({ ...DEFAULT_FILTERS, merchantTiers: ['super'] });
+  });
+
+  test('should keep unrelated query parameters', () => {
+    const search = mergeFilterParams('?session_token=abc&token=PEZ', { ...DEFAULT_FILTERS, fiatCurrency: 'TRY' });
+    expect(search).toBe('?session_token=abc&fiat=TRY');
+    expect(mergeFilterParams('?token=PEZ', DEFAULT_FILTERS)).toBe('');
+  });
+});
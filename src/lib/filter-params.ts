@@ -0,0 +1,120 @@
+/**
+ * P2P Filter URL Parameters
+ *
+ * @module filter-params
+ * @description Encodes ad list filters into URL query parameters and back
+ *
+ * Only filters that differ from the defaults are written, so a plain URL means
+ * "no filters". Unknown or malformed values fall back to the default, which keeps
+ * hand-edited or outdated links working.
+ */
+
+import { DEFAULT_FILTERS, type P2PFilters } from '@/components/p2p/types';
+import { isCryptoToken, isFiatCurrency } from '@/lib/assets';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+// Query parameter for each filter
+const PARAM = {
+  token: 'token',
+  fiatCurrency: 'fiat',
+  paymentMethods: 'pm',
+  minAmount: 'min',
+  maxAmount: 'max',
+  merchantTiers: 'tier',
+  minCompletionRate: 'rate',
+  onlineOnly: 'online',
+  verifiedOnly: 'verified',
+  sortBy: 'sort',
+  sortOrder: 'order'
+} as const satisfies Record<keyof P2PFilters, string>;
+
+export const FILTER_PARAM_KEYS: string[] = Object.values(PARAM);
+
+const TIERS: P2PFilters['merchantTiers'] = ['lite', 'super', 'diamond'];
+const SORTS: P2PFilters['sortBy'][] = ['price', 'completion_rate', 'trades', 'release_time', 'score', 'newest'];
+
+// =====================================================
+// CODEC
+// =====================================================
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Query parameters for the filters that differ from the defaults
+ */
+export function encodeFilters(filters: P2PFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const d = DEFAULT_FILTERS;
+
+  if (filters.token !== d.token) params.set(PARAM.token, filters.token);
+  if (filters.fiatCurrency !== d.fiatCurrency) params.set(PARAM.fiatCurrency, filters.fiatCurrency);
+  if (filters.paymentMethods.length > 0) params.set(PARAM.paymentMethods, filters.paymentMethods.join(','));
+  if (filters.minAmount !== null) params.set(PARAM.minAmount, String(filters.minAmount));
+  if (filters.maxAmount !== null) params.set(PARAM.maxAmount, String(filters.maxAmount));
+  if (filters.merchantTiers.length > 0) params.set(PARAM.merchantTiers, filters.merchantTiers.join(','));
+  if (filters.minCompletionRate !== d.minCompletionRate) params.set(PARAM.minCompletionRate, String(filters.minCompletionRate));
+  if (filters.onlineOnly) params.set(PARAM.onlineOnly, '1');
+  if (filters.verifiedOnly) params.set(PARAM.verifiedOnly, '1');
+  if (filters.sortBy !== d.sortBy) params.set(PARAM.sortBy, filters.sortBy);
+  if (filters.sortOrder !== d.sortOrder) params.set(PARAM.sortOrder, filters.sortOrder);
+
+  return params;
+}
+
+/**
+ * Filters described by query parameters, defaults for anything missing or invalid
+ */
+export function decodeFilters(params: URLSearchParams): P2PFilters {
+  const d = DEFAULT_FILTERS;
+
+  const token = params.get(PARAM.token);
+  const fiat = params.get(PARAM.fiatCurrency);
+  const sortBy = params.get(PARAM.sortBy) as P2PFilters['sortBy'] | null;
+  const sortOrder = params.get(PARAM.sortOrder);
+  const rate = parseNumber(params.get(PARAM.minCompletionRate));
+
+  return {
+    token: token && isCryptoToken(token) ? token : d.token,
+    fiatCurrency: fiat && isFiatCurrency(fiat) ? fiat : d.fiatCurrency,
+    paymentMethods: parseList(params.get(PARAM.paymentMethods)),
+    minAmount: parseNumber(params.get(PARAM.minAmount)),
+    maxAmount: parseNumber(params.get(PARAM.maxAmount)),
+    merchantTiers: parseList(params.get(PARAM.merchantTiers))
+      .filter((tier): tier is P2PFilters['merchantTiers'][number] => (TIERS as string[]).includes(tier)),
+    minCompletionRate: rate !== null && rate <= 100 ? rate : d.minCompletionRate,
+    onlineOnly: params.get(PARAM.onlineOnly) === '1',
+    verifiedOnly: params.get(PARAM.verifiedOnly) === '1',
+    sortBy: sortBy && SORTS.includes(sortBy) ? sortBy : d.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : d.sortOrder
+  };
+}
+
+/**
+ * Whether the query parameters carry any filter at all
+ */
+export function hasFilterParams(params: URLSearchParams): boolean {
+  return FILTER_PARAM_KEYS.some(key => params.has(key));
+}
+
+/**
+ * Replace the filter parameters of a query string, keeping unrelated parameters
+ */
+export function mergeFilterParams(search: string, filters: P2PFilters): string {
+  const params = new URLSearchParams(search);
+  FILTER_PARAM_KEYS.forEach(key => params.delete(key));
+  encodeFilters(filters).forEach((value, key) => params.set(key, value));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
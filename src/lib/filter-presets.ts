@@ -0,0 +1,119 @@
+/**
+ * P2P Filter Presets - Named, Saved Ad List Filters
+ *
+ * @module filter-presets
+ * @description Stores the user's filter presets locally and on their profile
+ *
+ * Presets are kept in localStorage so they apply instantly on load, and in the
+ * `filter_presets` column of the user's `p2p_users` row so they follow the user
+ * across devices. The profile copy wins when both exist.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_FILTERS, type P2PFilters } from '@/components/p2p/types';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: P2PFilters;
+  isDefault: boolean;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const MAX_FILTER_PRESETS = 10;
+
+const storageKey = (userId: string) => `p2p_filter_presets_${userId}`;
+
+// =====================================================
+// STORAGE
+// =====================================================
+
+// Presets saved by older versions may miss newer filter fields
+function normalizePresets(value: unknown): FilterPreset[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((preset): preset is FilterPreset => !!preset && typeof preset.id === 'string' && typeof preset.name === 'string')
+    .map(preset => ({
+      id: preset.id,
+      name: preset.name,
+      filters: { ...DEFAULT_FILTERS, ...preset.filters },
+      isDefault: !!preset.isDefault
+    }));
+}
+
+/**
+ * Presets cached on this device
+ */
+export function loadLocalPresets(userId: string): FilterPreset[] {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? normalizePresets(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveLocalPresets(userId: string, presets: FilterPreset[]): void {
+  localStorage.setItem(storageKey(userId), JSON.stringify(presets));
+}
+
+/**
+ * Presets stored on the user's profile, null if none were ever synced
+ */
+export async function fetchProfilePresets(userId: string): Promise<FilterPreset[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_users')
+      .select('filter_presets')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.filter_presets ? normalizePresets(data.filter_presets) : null;
+  } catch (error) {
+    console.error('Fetch filter presets error:', error);
+    return null;
+  }
+}
+
+/**
+ * Save presets on this device and on the profile.
+ * The local copy is always written; a failed profile sync only logs.
+ */
+export async function savePresets(userId: string, presets: FilterPreset[]): Promise<void> {
+  saveLocalPresets(userId, presets);
+
+  try {
+    const { error } = await supabase
+      .from('p2p_users')
+      .update({ filter_presets: presets })
+      .eq('id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Sync filter presets error:', error);
+  }
+}
+
+/**
+ * Load presets, preferring the profile copy and caching it locally
+ */
+export async function syncPresets(userId: string): Promise<FilterPreset[]> {
+  const remote = await fetchProfilePresets(userId);
+  if (remote) {
+    saveLocalPresets(userId, remote);
+    return remote;
+  }
+
+  // First sync from this device: push what is stored locally
+  const local = loadLocalPresets(userId);
+  if (local.length > 0) await savePresets(userId, local);
+  return local;
+}
@@ -0,0 +1,24 @@
+import { expect, test, describe } from 'vitest';
+import { completionRate } from './merchant-ranking';
+import type { P2PReputation } from './p2p-fiat';
+
+function reputation(completed: number, total: number): P2PReputation {
+  return {
+    user_id: 'u',
+    total_trades: total,
+    completed_trades: completed,
+    cancelled_trades: total - completed,
+    disputed_trades: 0,
+    reputation_score: 50,
+    trust_level: 'basic',
+    verified_merchant: false
+  };
+}
+
+describe('merchant ranking', () => {
+  test('should compute the completion rate', () => {
+    expect(completionRate(null)).toBe(0);
+    expect(completionRate(reputation(0, 0))).toBe(0);
+    expect(completionRate(reputation(9, 10))).toBe(90);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Merchant Ranking - Sort Keys for the Ad List
+ *
+ * @module merchant-ranking
+ * @description Sort keys of the offer feed and merchant metrics from P2PReputation
+ *
+ * Offers can be ranked by price, completion rate, completed trade count, average
+ * release time, or a composite "best merchant" score. The `get_p2p_offer_feed` RPC
+ * does all ranking, so pages stay in one order however many are loaded:
+ * - price: the live price, with floating offers at the reference price plus their margin
+ * - score: 0-100 from completion rate (40), trade volume on a log scale saturating
+ *   at 100 trades (25), release speed reaching zero at 60 minutes (20) and
+ *   reputation score (15); an unknown release time counts as average
+ * - offers without a value for the key (e.g. unknown release time) go last in either order
+ * - ties fall back to the better price for the taker, then to age and id
+ */
+
+import type { P2PReputation } from '@/lib/p2p-fiat';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type MerchantSort = 'price' | 'completion_rate' | 'trades' | 'release_time' | 'score' | 'newest';
+
+export type SortOrder = 'asc' | 'desc';
+
+// =====================================================
+// METRICS
+// =====================================================
+
+/**
+ * Percent of the merchant's trades that completed (0 without history)
+ */
+export function completionRate(reputation?: P2PReputation | null): number {
+  if (!reputation || reputation.total_trades <= 0) return 0;
+  return (reputation.completed_trades / reputation.total_trades) * 100;
+}
@@ -0,0 +1,55 @@
+import { expect, test, describe } from 'vitest';
+import { decimalToString } from './decimal';
+import {
+  addCrypto,
+  compareCrypto,
+  cryptoForFiat,
+  fiatTotal,
+  formatCrypto,
+  formatFiat,
+  formatPrice,
+  sumByCurrency,
+  unitPrice
+} from './money';
+
+describe('money formatting', () => {
+  test('should use each fiat precision', () => {
+    expect(formatFiat(1250.5, 'EUR', { locale: 'en-US' })).toBe('1,250.50 EUR');
+    expect(formatFiat(1250000.4, 'IQD', { locale: 'en-US', compact: false })).toBe('1,250,000 IQD');
+    expect(formatFiat(99.999, 'USD', { locale: 'en-US', display: 'symbol' })).toBe('$100.00');
+    expect(formatFiat(1250000, 'IQD', { locale: 'en-US', compact: true })).toBe('1.25M IQD');
+  });
+
+  test('should use the token display precision without trailing zeros', () => {
+    expect(formatCrypto(12.5, 'PEZ', { locale: 'en-US' })).toBe('12.5 PEZ');
+    expect(formatCrypto(0.123456, 'HEZ', { locale: 'en-US' })).toBe('0.1235 HEZ');
+  });
+
+  test('should format unit prices per pair', () => {
+    expect(formatPrice(45.2, 'TRY', 'HEZ', 'en-US')).toBe('45.20 TRY/HEZ');
+    expect(formatPrice(1520, 'IRR', 'HEZ', 'en-US')).toBe('1,520 IRR/HEZ');
+  });
+
+  test('should total each currency separately', () => {
+    const totals = sumByCurrency([
+      { currency: 'TRY', amount: 100 },
+      { currency: 'IQD', amount: 50000 },
+      { currency: 'TRY', amount: 50 }
+    ]);
+    expect(totals.map(t => [t.currency, decimalToString(t.amount)])).toEqual([['IQD', '50000'], ['TRY', '150']]);
+    expect(decimalToString(sumByCurrency([{ currency: 'EUR', amount: 0.1 }, { currency: 'EUR', amount: 0.2 }])[0].amount)).toBe('0.3');
+  });
+
+  test('should compute amounts exactly at each asset precision', () => {
+    expect(decimalToString(fiatTotal(0.1, 3, 'TRY'))).toBe('0.30');
+    expect(decimalToString(fiatTotal(1.5, 1001, 'IQD'))).toBe('1502');
+    expect(decimalToString(fiatTotal(0.125, 1, 'EUR'))).toBe('0.12'); // EUR rounds half to even
+    expect(decimalToString(cryptoForFiat(100, 3, 'HEZ'))).toBe('33.333333333333');
+    expect(decimalToString(unitPrice(100, 3, 'TRY'))).toBe('33.3333');
+    expect(compareCrypto(0.1 + 0.2, 0.3, 'HEZ')).toBe(0);
+  });
+
+  test('should keep large token amounts exact', () => {
+    expect(decimalToString(addCrypto('123456789.123456789012', '0.000000000001', 'HEZ'))).toBe('123456789.123456789013');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Money Formatting - Amounts in Their Real Currency
+ *
+ * @module money
+ * @description Renders fiat and crypto amounts with the right unit and precision
+ *
+ * Decimals come from the asset registry (zero for IQD/IRR, two for most fiats,
+ * each token's display precision), grouping from the user's locale. Amounts in
+ * different currencies are never added together; see sumByCurrency. Fiat is
+ * shown in the user's display unit (rial or toman for IRR) and large IRR/IQD
+ * amounts compact, per fiat-display; callers always pass base-unit amounts.
+ *
+ * The amount helpers do ledger arithmetic exactly (see decimal): crypto at the
+ * token's on-chain precision, fiat at the currency's precision and rounding mode.
+ * They return Decimals so sums and remainders stay exact at 12-decimal token
+ * precision; callers convert with decimalToString when sending an amount and let
+ * the formatters convert for display.
+ */
+
+import { getFiatInfo, getTokenInfo } from '@/lib/assets';
+import { getDisplayUnit, shouldCompact, toDisplayAmount } from '@/lib/fiat-display';
+import {
+  add,
+  compare,
+  decimalToNumber,
+  divide,
+  multiply,
+  subtract,
+  toDecimal,
+  type Decimal,
+  type DecimalInput
+} from '@/lib/decimal';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface FiatFormatOptions {
+  display?: 'code' | 'symbol' | 'none'; // "1,250.00 TRY", "₺1,250.00" or "1,250.00"
+  compact?: boolean; // Force "1.25K TRY" or the full amount; by default only large IRR/IQD amounts are compact
+  locale?: string;
+}
+
+export interface CryptoFormatOptions {
+  showCode?: boolean;
+  locale?: string;
+}
+
+export interface CurrencyTotal {
+  currency: string;
+  amount: Decimal;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+// Unit prices carry two decimals more than the fiat itself
+const PRICE_EXTRA_DECIMALS = 2;
+
+const COMPACT_DECIMALS = 2;
+
+// =====================================================
+// FORMATTING
+// =====================================================
+
+function formatDecimals(value: number, minDecimals: number, maxDecimals: number, locale?: string): string {
+  return new Intl.NumberFormat(locale, {
+    minimumFractionDigits: minDecimals,
+    maximumFractionDigits: maxDecimals
+  }).format(value);
+}
+
+function formatCompact(value: number, locale?: string): string {
+  return new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: COMPACT_DECIMALS }).format(value);
+}
+
+/**
+ * Fiat amount at the currency's precision in the user's display unit
+ * (bare 2-decimal number if the currency is unknown)
+ */
+export function formatFiat(amount: DecimalInput, currency: string | null | undefined, options: FiatFormatOptions = {}): string {
+  const { display = 'code', locale } = options;
+  const info = getFiatInfo(currency ?? '');
+  const unit = getDisplayUnit(info.code);
+  const shown = toDisplayAmount(amount, info.code, unit.decimals);
+  const compact = options.compact ?? shouldCompact(amount, info.code);
+  const value = compact ? formatCompact(shown, locale) : formatDecimals(shown, info.decimals, unit.decimals, locale);
+
+  if (display === 'none' || !currency) return value;
+  if (display === 'symbol' && unit.symbol) return `${unit.symbol}${value}`;
+  return `${value} ${unit.code}`;
+}
+
+/**
+ * Crypto amount up to the token's display precision, without trailing zeros
+ */
+export function formatCrypto(amount: DecimalInput, token: string | null | undefined, options: CryptoFormatOptions = {}): string {
+  const { showCode = true, locale } = options;
+  const info = getTokenInfo(token ?? '');
+  const value = formatDecimals(decimalToNumber(toDecimal(amount, info.displayDecimals)), 0, info.displayDecimals, locale);
+  return showCode && token ? `${value} ${info.code}` : value;
+}
+
+/**
+ * Price of one token in fiat, e.g. "45.20 TRY/HEZ".
+ * Allows two extra decimals over the fiat's precision since unit prices can be small.
+ */
+export function formatPrice(
+  price: DecimalInput,
+  currency: string | null | undefined,
+  token: string | null | undefined,
+  locale?: string
+): string {
+  const info = getFiatInfo(currency ?? '');
+  const decimals = priceDecimals(currency);
+  const shown = toDisplayAmount(price, info.code, decimals);
+  const value = shouldCompact(price, info.code)
+    ? formatCompact(shown, locale)
+    : formatDecimals(shown, info.decimals, decimals, locale);
+  return currency && token ? `${value} ${getDisplayUnit(info.code).code}/${token}` : value;
+}
+
+// =====================================================
+// EXACT AMOUNTS
+// =====================================================
+
+/**
+ * Crypto amount rounded down to the token's precision (never more than was entered)
+ */
+export function roundCrypto(amount: DecimalInput, token: string | null | undefined): Decimal {
+  return toDecimal(amount, getTokenInfo(token ?? '').decimals, 'down');
+}
+
+/**
+ * Fiat amount at the currency's precision and rounding mode
+ */
+export function roundFiat(amount: DecimalInput, currency: string | null | undefined): Decimal {
+  const info = getFiatInfo(currency ?? '');
+  return toDecimal(amount, info.decimals, info.rounding);
+}
+
+export function addCrypto(a: DecimalInput, b: DecimalInput, token: string | null | undefined): Decimal {
+  return roundCrypto(add(toDecimal(a), toDecimal(b)), token);
+}
+
+export function subtractCrypto(a: DecimalInput, b: DecimalInput, token: string | null | undefined): Decimal {
+  return roundCrypto(subtract(toDecimal(a), toDecimal(b)), token);
+}
+
+/**
+ * Compare two crypto amounts at the token's precision, so float noise below it
+ * doesn't decide a limit or balance check
+ */
+export function compareCrypto(a: DecimalInput, b: DecimalInput, token: string | null | undefined): number {
+  const { decimals } = getTokenInfo(token ?? '');
+  return compare(toDecimal(a, decimals, 'down'), toDecimal(b, decimals, 'down'));
+}
+
+/**
+ * Compare two fiat amounts at the currency's precision
+ */
+export function compareFiat(a: DecimalInput, b: DecimalInput, currency: string | null | undefined): number {
+  const { decimals, rounding } = getFiatInfo(currency ?? '');
+  return compare(toDecimal(a, decimals, rounding), toDecimal(b, decimals, rounding));
+}
+
+/**
+ * Fiat value of a crypto amount at a unit price, rounded once at the fiat's precision
+ */
+export function fiatTotal(cryptoAmount: DecimalInput, pricePerUnit: DecimalInput, currency: string | null | undefined): Decimal {
+  const { decimals, rounding } = getFiatInfo(currency ?? '');
+  return multiply(toDecimal(cryptoAmount), toDecimal(pricePerUnit), decimals, rounding);
+}
+
+/**
+ * Crypto bought by a fiat amount at a unit price, rounded down to the token's precision
+ */
+export function cryptoForFiat(fiatAmount: DecimalInput, pricePerUnit: DecimalInput, token: string | null | undefined): Decimal {
+  const { decimals } = getTokenInfo(token ?? '');
+  return divide(toDecimal(fiatAmount), toDecimal(pricePerUnit), decimals, 'down');
+}
+
+/**
+ * Unit price from a fiat total and crypto amount, at the price precision of the fiat
+ */
+export function unitPrice(fiatAmount: DecimalInput, cryptoAmount: DecimalInput, currency: string | null | undefined): Decimal {
+  const { rounding } = getFiatInfo(currency ?? '');
+  return divide(toDecimal(fiatAmount), toDecimal(cryptoAmount), priceDecimals(currency), rounding);
+}
+
+/**
+ * Decimals of a unit price in the fiat, e.g. for a price input
+ */
+export function priceDecimals(currency: string | null | undefined): number {
+  return getFiatInfo(currency ?? '').decimals + PRICE_EXTRA_DECIMALS;
+}
+
+// =====================================================
+// TOTALS
+// =====================================================
+
+/**
+ * Totals per currency, largest first. Mixed currencies can't be summed into one figure.
+ */
+export function sumByCurrency(items: { currency: string; amount: DecimalInput }[]): CurrencyTotal[] {
+  const totals = new Map<string, Decimal>();
+  for (const { currency, amount } of items) {
+    totals.set(currency, add(totals.get(currency) ?? toDecimal(0), toDecimal(amount)));
+  }
+  return Array.from(totals, ([currency, amount]) => ({ currency, amount }))
+    .sort((a, b) => compare(b.amount, a.amount));
+}
@@ -0,0 +1,107 @@
+/**
+ * P2P Notifications - In-App Notification Feed
+ *
+ * @module notifications
+ * @description Reading, marking and listening to a user's p2p_notifications rows
+ *
+ * Notifications are written server-side and by the trade lifecycle (new
+ * order, payment sent, rating received...). The bell shows the latest ones
+ * and new rows arrive over a realtime channel per user.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface P2PNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  reference_type?: string;
+  reference_id?: string;
+  is_read: boolean;
+  created_at: string;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const NOTIFICATION_FEED_LIMIT = 20;
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+/**
+ * Latest notifications of a user, newest first
+ */
+export async function getNotifications(userId: string): Promise<P2PNotification[]> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_FEED_LIMIT);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Fetch notifications error:', error);
+    return [];
+  }
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('p2p_notifications')
+    .update({ is_read: true })
+    .eq('id', notificationId);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('p2p_notifications')
+    .update({ is_read: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (error) throw error;
+}
+
+// =====================================================
+// REALTIME
+// =====================================================
+
+/**
+ * Get each new notification of a user as it is inserted, until the returned cleanup runs
+ */
+export function subscribeNewNotifications(
+  userId: string,
+  onInsert: (notification: P2PNotification) => void
+): () => void {
+  const channel = supabase
+    .channel(`notifications-${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'p2p_notifications',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => onInsert(payload.new as P2PNotification)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
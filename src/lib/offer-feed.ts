@@ -0,0 +1,107 @@
+/**
+ * P2P Offer Feed - Paginated Offer Listing
+ *
+ * @module offer-feed
+ * @description Loads the public ad list one page at a time through a single RPC
+ *
+ * The `get_p2p_offer_feed` RPC joins each offer with its owner's reputation,
+ * completion rate, merchant tier and payment method names, and applies every
+ * filter server-side, so a page costs one round trip regardless of its size.
+ * The RPC also ranks the offers (see merchant-ranking for the sort keys) and pages
+ * are shown in the order they arrive, so appending a page never reorders earlier ones.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { CryptoToken, P2PFiatOffer, P2PReputation } from '@/lib/p2p-fiat';
+import type { MerchantSort, SortOrder } from '@/lib/merchant-ranking';
+import { ONLINE_WINDOW_MINUTES } from '@/lib/presence';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type FeedMerchantTier = 'lite' | 'super' | 'diamond';
+
+export interface OfferFeedQuery {
+  adType: 'buy' | 'sell'; // Type of the listed ads, not the taker's side
+  token?: CryptoToken;
+  fiatCurrency?: string;
+  paymentMethodIds?: string[]; // Offers accepting any of these
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  merchantTiers?: FeedMerchantTier[];
+  minCompletionRate?: number; // Percent
+  verifiedOnly?: boolean;
+  onlineOnly?: boolean; // Owner seen within the presence online window
+  sortBy: MerchantSort;
+  sortOrder: SortOrder;
+}
+
+export interface OfferFeedItem extends P2PFiatOffer {
+  seller_reputation: P2PReputation | null;
+  completion_rate: number; // Percent of the owner's trades completed
+  merchant_tier: FeedMerchantTier | null;
+  payment_method_names: string[];
+  seller_last_seen_at: string | null;
+}
+
+export interface OfferFeedPage {
+  offers: OfferFeedItem[];
+  hasMore: boolean;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const OFFER_FEED_PAGE_SIZE = 20;
+
+// =====================================================
+// FEED
+// =====================================================
+
+/**
+ * Tiers an offer owner may hold to pass the tier filter.
+ * Higher tiers satisfy lower ones: "super" also lets diamond merchants through.
+ */
+export function acceptedMerchantTiers(selected: FeedMerchantTier[]): FeedMerchantTier[] {
+  if (selected.includes('diamond')) return ['diamond'];
+  if (selected.includes('super')) return ['super', 'diamond'];
+  return selected;
+}
+
+/**
+ * Load one page of the offer feed (page numbers start at 0)
+ */
+export async function getOfferFeed(query: OfferFeedQuery, page = 0): Promise<OfferFeedPage> {
+  try {
+    const { data, error } = await supabase.rpc('get_p2p_offer_feed', {
+      p_ad_type: query.adType,
+      p_token: query.token ?? null,
+      p_fiat_currency: query.fiatCurrency ?? null,
+      p_payment_method_ids: query.paymentMethodIds?.length ? query.paymentMethodIds : null,
+      p_min_amount: query.minAmount ?? null,
+      p_max_amount: query.maxAmount ?? null,
+      p_merchant_tiers: query.merchantTiers?.length ? acceptedMerchantTiers(query.merchantTiers) : null,
+      p_min_completion_rate: query.minCompletionRate || null,
+      p_verified_only: query.verifiedOnly ?? false,
+      p_online_within_minutes: query.onlineOnly ? ONLINE_WINDOW_MINUTES : null,
+      p_sort_by: query.sortBy,
+      p_sort_order: query.sortOrder,
+      // One extra row tells whether another page exists
+      p_limit: OFFER_FEED_PAGE_SIZE + 1,
+      p_offset: page * OFFER_FEED_PAGE_SIZE
+    });
+
+    if (error) throw error;
+
+    const rows = (data || []) as OfferFeedItem[];
+    return {
+      offers: rows.slice(0, OFFER_FEED_PAGE_SIZE),
+      hasMore: rows.length > OFFER_FEED_PAGE_SIZE
+    };
+  } catch (error) {
+    console.error('Get offer feed error:', error);
+    return { offers: [], hasMore: false };
+  }
+}
@@ -12,6 +12,50 @@
 
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
+import {
+  assertTransition,
+  canViewPaymentDetails,
+  getTradeRole,
+  isPaymentOverdue,
+  PAYMENT_DETAILS_VISIBLE_STATUSES,
+  type TradeAction,
+  type TradeRole,
+  type TradeTransition
+} from '@/lib/trade-state-machine';
+import {
+  canDecryptForUser,
+  coversKeys,
+  decryptForUser,
+  decryptLegacyPayload,
+  encryptForUser,
+  getUserPublicKeys,
+  isLegacyCiphertext,
+  publishPublicKey,
+  PAYMENT_CIPHER_VERSION
+} from '@/lib/payment-crypto';
+import {
+  getEffectivePrice,
+  TRADE_PRICE_TOLERANCE_PERCENT,
+  validateFloatingPricing,
+  type FloatingPricing,
+  type PriceType
+} from '@/lib/p2p-pricing';
+import { getReferencePrice } from '@/lib/reference-price';
+import type { CryptoToken, FiatCurrency } from '@/lib/assets';
+import { validateQuote } from '@/lib/express-routing';
+import type { ExpressQuote, ExpressSide, FillLeg, RoutableOffer, TakerProfile } from '@/lib/express-routing';
+import { decimalToString, isNegative, isZero, toDecimal, type DecimalInput } from '@/lib/decimal';
+import {
+  addCrypto,
+  compareCrypto,
+  fiatTotal,
+  formatCrypto,
+  formatFiat,
+  roundCrypto,
+  subtractCrypto,
+  sumByCurrency,
+  type CurrencyTotal
+} from '@/lib/money';
 
 // =====================================================
 // USER ID HELPER
@@ -71,22 +115,8 @@ export interface ValidationRule {
   required?: boolean;
 }
 
-// Fiat currencies including Kurdish Diaspora countries
-export type FiatCurrency =
-  | 'TRY'  // Turkish Lira (Turkey - 15M+ Kurds)
-  | 'IQD'  // Iraqi Dinar (Kurdistan Region - 6M+ Kurds)
-  | 'IRR'  // Iranian Rial (Rojhilat - 8M+ Kurds)
-  | 'EUR'  // Euro (Germany, France, Netherlands, Belgium, Austria)
-  | 'USD'  // US Dollar
-  | 'GBP'  // British Pound (UK - 50K+ Kurds)
-  | 'SEK'  // Swedish Krona (Sweden - 100K+ Kurds)
-  | 'CHF'  // Swiss Franc (Switzerland - 30K+ Kurds)
-  | 'NOK'  // Norwegian Krone (Norway - 30K+ Kurds)
-  | 'DKK'  // Danish Krone (Denmark - 25K+ Kurds)
-  | 'AUD'  // Australian Dollar (Australia - 20K+ Kurds)
-  | 'CAD'; // Canadian Dollar (Canada - 30K+ Kurds)
-
-export type CryptoToken = 'HEZ' | 'PEZ';
+// Supported codes come from the asset registry
+export type { FiatCurrency, CryptoToken } from '@/lib/assets';
 
 export type OfferStatus = 'open' | 'paused' | 'locked' | 'completed' | 'cancelled';
 export type TradeStatus = 'pending' | 'payment_sent' | 'completed' | 'cancelled' | 'disputed' | 'refunded';
@@ -99,15 +129,22 @@ export interface P2PFiatOffer {
   amount_crypto: number;
   fiat_currency: FiatCurrency;
   fiat_amount: number;
-  price_per_unit: number;
-  payment_method_id: string;
+  price_per_unit: number; // Fixed price, or the last computed price of a floating offer
+  price_type?: PriceType; // Default: 'fixed'
+  price_margin_percent?: number | null; // Floating only: margin over the reference price
+  price_floor?: number | null;
+  price_ceiling?: number | null;
+  payment_method_id: string; // Primary method, kept for offers created before multi-method support
   payment_details_encrypted: string;
+  payment_method_ids?: string[];
+  payment_methods?: OfferPaymentMethod[];
   min_order_amount?: number;
   max_order_amount?: number;
   time_limit_minutes: number;
   auto_reply_message?: string;
   min_buyer_completed_trades: number;
   min_buyer_reputation: number;
+  ad_type: 'buy' | 'sell';
   status: OfferStatus;
   remaining_amount: number;
   escrow_tx_hash?: string;
@@ -115,6 +152,11 @@ export interface P2PFiatOffer {
   expires_at: string;
 }
 
+export interface OfferPaymentMethod {
+  payment_method_id: string;
+  payment_details_encrypted: string; // Encrypted to the offer owner's own key
+}
+
 export interface P2PFiatTrade {
   id: string;
   offer_id: string;
@@ -129,6 +171,11 @@ export interface P2PFiatTrade {
   buyer_payment_proof_url?: string;
   seller_confirmed_at?: string;
   status: TradeStatus;
+  payment_method_id?: string; // Method the taker chose from the offer's methods
+  order_group_id?: string; // Shared by the trades of one Express order
+  payment_details_encrypted?: string; // Encrypted to the buyer; sharing it restarts the payment deadline
+  token?: CryptoToken; // From the offer, filled in by the trade queries
+  fiat_currency?: FiatCurrency;
   payment_deadline: string;
   confirmation_deadline?: string;
   created_at: string;
@@ -149,23 +196,64 @@ export interface P2PReputation {
   fast_trader?: boolean;
 }
 
+export interface TradeStats {
+  activeTrades: number;
+  completedTrades: number;
+  volume: CurrencyTotal[]; // Completed trade volume per fiat currency
+}
+
+// The other side of a trade, as shown in the trade room
+export interface TradeCounterparty {
+  user_id: string;
+  display_name: string;
+  telegram_username?: string;
+  avatar_url?: string;
+  wallet_address: string;
+  reputation: P2PReputation | null;
+}
+
+export interface PaymentDetailField {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface TradePaymentDetails {
+  method: PaymentMethod;
+  fields: PaymentDetailField[];
+  shared: boolean; // false until the seller's client has encrypted them to the buyer
+  missingDeviceKey?: boolean; // Shared, but only to the buyer's other devices so far
+}
+
+// Outcome of encrypting the seller's details to a trade's buyer
+export type PaymentShareResult = 'shared' | 'unchanged' | 'missing_device_key';
+
 export interface CreateOfferParams {
   token: CryptoToken;
-  amountCrypto: number;
+  amountCrypto: DecimalInput;
   fiatCurrency: FiatCurrency;
-  fiatAmount: number;
-  paymentMethodId: string;
-  paymentDetails: Record<string, string>;
+  fiatAmount: DecimalInput;
+  paymentMethods: OfferPaymentMethodInput[];
+  pricing?: FloatingPricing; // Floating price pegged to the reference; fixed when omitted
   timeLimitMinutes?: number;
-  minOrderAmount?: number;
-  maxOrderAmount?: number;
+  minOrderAmount?: DecimalInput;
+  maxOrderAmount?: DecimalInput;
   adType?: 'buy' | 'sell'; // Default: 'sell'
 }
 
+export interface OfferPaymentMethodInput {
+  paymentMethodId: string;
+  paymentDetails: Record<string, string>;
+}
+
 export interface AcceptOfferParams {
   offerId: string;
-  buyerWallet: string;
-  amount?: number;
+  takerWallet: string;
+  paymentMethodId: string; // One of the offer's payment methods
+  amount?: DecimalInput;
+  expectedPrice?: number; // Price per unit the taker was shown; the server refuses the trade if its price moved further
+  paymentDetails?: Record<string, string>; // Required when selling into a buy ad
+  orderGroupId?: string; // Set when the trade is one leg of an Express order
 }
 
 // =====================================================
@@ -216,24 +304,76 @@ export interface BalanceTransaction {
 const PLATFORM_ESCROW_ADDRESS = '5H18ZZBU4LwPYbeEZ1JBGvibCU2edhhM8HNUtFi7GgC36CgS';
 
 const DEFAULT_PAYMENT_DEADLINE_MINUTES = 30;
+
+// Trade statuses that still hold part of an offer's escrow
+const OPEN_TRADE_STATUSES: TradeStatus[] = ['pending', 'payment_sent', 'disputed'];
 const DEFAULT_CONFIRMATION_DEADLINE_MINUTES = 60;
 
+// Offers a returned trade amount puts back on the market; paused and closed offers keep their status
+const REOPENED_OFFER_STATUSES: OfferStatus[] = ['locked', 'completed'];
+// Guarded offer updates retried when a concurrent trade changed the offer in between
+const OFFER_UPDATE_ATTEMPTS = 3;
+
+// Offers considered when routing an Express order
+const EXPRESS_CANDIDATE_LIMIT = 50;
+
 // =====================================================
 // PAYMENT METHODS
 // =====================================================
 
 /**
- * Fetch available payment methods for a currency
+ * Fetch a single payment method (e.g. the one a buy ad pays with)
+ */
+export async function getPaymentMethodById(methodId: string): Promise<PaymentMethod | null> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .select('*')
+      .eq('id', methodId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get payment method error:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch several payment methods (e.g. all methods an offer accepts), in display order
  */
-export async function getPaymentMethods(currency: FiatCurrency): Promise<PaymentMethod[]> {
+export async function getPaymentMethodsByIds(methodIds: string[]): Promise<PaymentMethod[]> {
+  if (methodIds.length === 0) return [];
+
   try {
     const { data, error } = await supabase
       .from('payment_methods')
       .select('*')
-      .eq('currency', currency)
-      .eq('is_active', true)
+      .in('id', methodIds)
       .order('display_order');
 
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Get payment methods error:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch available payment methods for a currency ('all' for every currency)
+ */
+export async function getPaymentMethods(currency: FiatCurrency | 'all'): Promise<PaymentMethod[]> {
+  try {
+    let query = supabase
+      .from('payment_methods')
+      .select('*')
+      .eq('is_active', true);
+    if (currency !== 'all') query = query.eq('currency', currency);
+
+    const { data, error } = await query.order('display_order');
+
     if (error) throw error;
     return data || [];
   } catch (error) {
@@ -282,101 +422,181 @@ export function validatePaymentDetails(
   };
 }
 
+/**
+ * Human-readable label for a payment method field key (e.g. account_name -> Account Name)
+ */
+export function formatPaymentFieldLabel(field: string): string {
+  return field.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+/**
+ * All payment methods an offer accepts. Offers created before multi-method
+ * support only carry the single primary method.
+ */
+export function getOfferPaymentMethods(
+  offer: Pick<P2PFiatOffer, 'payment_method_id' | 'payment_details_encrypted' | 'payment_methods'>
+): OfferPaymentMethod[] {
+  if (offer.payment_methods && offer.payment_methods.length > 0) {
+    return offer.payment_methods;
+  }
+  return [{
+    payment_method_id: offer.payment_method_id,
+    payment_details_encrypted: offer.payment_details_encrypted
+  }];
+}
+
+/**
+ * Encrypted details for one of an offer's payment methods, or null if the offer doesn't accept it
+ */
+export function getOfferPaymentDetails(
+  offer: Pick<P2PFiatOffer, 'payment_method_id' | 'payment_details_encrypted' | 'payment_methods'>,
+  methodId: string
+): string | null {
+  return getOfferPaymentMethods(offer).find(m => m.payment_method_id === methodId)?.payment_details_encrypted ?? null;
+}
+
 // =====================================================
-// ENCRYPTION (AES-256-GCM - OKX-Level Security)
+// ENCRYPTION (Per-Trade End-to-End, see payment-crypto)
 // =====================================================
 
-const IV_LENGTH = 12; // 96 bits for GCM
-
 /**
- * Derive encryption key from a password/secret
+ * Decrypt payment details encrypted to the current user's key.
+ * Throws for unreadable or legacy values instead of silently falling back.
  */
-async function getEncryptionKey(): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode('p2p-payment-encryption-v1-pezkuwi'),
-    'PBKDF2',
-    false,
-    ['deriveBits', 'deriveKey']
-  );
-
-  return crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: encoder.encode('pezkuwi-p2p-salt'),
-      iterations: 100000,
-      hash: 'SHA-256'
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
-  );
+export async function decryptPaymentDetails(encrypted: string): Promise<Record<string, string>> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('Not authenticated');
+  return decryptForUser(encrypted, userId);
 }
 
 /**
- * Encrypt payment details using AES-256-GCM
+ * Set up payment encryption after login:
+ * 1. Create and publish this device's keypair
+ * 2. Migrate the user's legacy (v1) offer details to their own keys
+ * 3. Copy what this device can read to the user's newer device keys
+ * 4. Share payment details for trades waiting on this user
  */
-async function encryptPaymentDetails(details: Record<string, string>): Promise<string> {
+export async function initPaymentEncryption(): Promise<void> {
   try {
-    const key = await getEncryptionKey();
-    const encoder = new TextEncoder();
-    const data = encoder.encode(JSON.stringify(details));
-
-    // Generate random IV
-    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-
-    // Encrypt
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      data
-    );
+    const userId = await getCurrentUserId();
+    if (!userId) return;
 
-    // Combine IV + ciphertext and encode as base64
-    const combined = new Uint8Array(iv.length + encrypted.byteLength);
-    combined.set(iv);
-    combined.set(new Uint8Array(encrypted), iv.length);
+    const { isNewDevice } = await publishPublicKey(userId);
+    if (isNewDevice) {
+      toast.info('Payment details saved on your other devices will show here once you open the app on one of them.');
+    }
 
-    return btoa(String.fromCharCode(...combined));
+    await migrateLegacyPaymentDetails(userId);
+    await reshareToNewDeviceKeys(userId);
+    await sharePendingTradePaymentDetails(userId);
   } catch (error) {
-    console.error('Encryption failed:', error);
-    // Fallback to base64 for backwards compatibility (temporary)
-    return btoa(JSON.stringify(details));
+    console.error('Init payment encryption error:', error);
   }
 }
 
 /**
- * Decrypt payment details using AES-256-GCM
+ * Re-encrypt the user's own offers that still use the pre-v2 format
  */
-export async function decryptPaymentDetails(encrypted: string): Promise<Record<string, string>> {
-  try {
-    const key = await getEncryptionKey();
+async function migrateLegacyPaymentDetails(userId: string): Promise<void> {
+  const { data: offers, error } = await supabase
+    .from('p2p_fiat_offers')
+    .select('id, payment_details_encrypted')
+    .eq('seller_id', userId)
+    .in('status', ['open', 'paused', 'locked']);
 
-    // Decode base64
-    const combined = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
+  if (error) throw error;
 
-    // Extract IV and ciphertext
-    const iv = combined.slice(0, IV_LENGTH);
-    const ciphertext = combined.slice(IV_LENGTH);
-
-    // Decrypt
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      ciphertext
-    );
+  for (const offer of offers || []) {
+    if (!offer.payment_details_encrypted || !isLegacyCiphertext(offer.payment_details_encrypted)) continue;
 
-    const decoder = new TextDecoder();
-    return JSON.parse(decoder.decode(decrypted));
-  } catch {
-    // Fallback: try to decode as plain base64 (for old data)
+    let details: Record<string, string>;
     try {
-      return JSON.parse(atob(encrypted));
+      details = await decryptLegacyPayload(offer.payment_details_encrypted);
     } catch {
-      return {};
+      // Values written by the removed base64 fallback were never encrypted
+      try {
+        details = JSON.parse(atob(offer.payment_details_encrypted));
+      } catch {
+        console.error('Unreadable legacy payment details for offer', offer.id);
+        continue;
+      }
     }
+
+    const migrated = await encryptForUser(details, userId);
+    await supabase
+      .from('p2p_fiat_offers')
+      .update({ payment_details_encrypted: migrated })
+      .eq('id', offer.id)
+      .eq('seller_id', userId);
+
+    await logAction('offer', offer.id, 'migrate_payment_encryption', {
+      version: PAYMENT_CIPHER_VERSION
+    });
+  }
+}
+
+/**
+ * Re-encrypt a value this device can read to all of the recipient's device keys.
+ * Returns null when it already covers them or this device has no copy.
+ */
+async function reencryptForNewKeys(value: string | null | undefined, userId: string, recipientId: string): Promise<string | null> {
+  if (!value || isLegacyCiphertext(value)) return null;
+
+  const keyIds = (await getUserPublicKeys(recipientId)).map(key => key.keyId);
+  if (coversKeys(value, keyIds) || !(await canDecryptForUser(value, userId))) return null;
+
+  return encryptForUser(await decryptForUser(value, userId), recipientId);
+}
+
+/**
+ * Give the user's other device keys a copy of their offer details and of the
+ * details sellers shared with them, so a new device or cleared storage doesn't
+ * lose them. Runs on every device after login; the ones holding a copy share it.
+ */
+async function reshareToNewDeviceKeys(userId: string): Promise<void> {
+  const { data: offers, error: offersError } = await supabase
+    .from('p2p_fiat_offers')
+    .select('id, payment_details_encrypted, payment_methods')
+    .eq('seller_id', userId)
+    .in('status', ['open', 'paused', 'locked']);
+
+  if (offersError) throw offersError;
+
+  for (const offer of offers || []) {
+    const methods = (offer.payment_methods || []) as OfferPaymentMethod[];
+    const primary = await reencryptForNewKeys(offer.payment_details_encrypted, userId, userId);
+    const reencrypted = await Promise.all(methods.map(m => reencryptForNewKeys(m.payment_details_encrypted, userId, userId)));
+    if (!primary && reencrypted.every(value => value === null)) continue;
+
+    await supabase
+      .from('p2p_fiat_offers')
+      .update({
+        payment_details_encrypted: primary ?? offer.payment_details_encrypted,
+        payment_methods: methods.map((m, i) => ({ ...m, payment_details_encrypted: reencrypted[i] ?? m.payment_details_encrypted }))
+      })
+      .eq('id', offer.id)
+      .eq('seller_id', userId);
+  }
+
+  const { data: trades, error: tradesError } = await supabase
+    .from('p2p_fiat_trades')
+    .select('id, payment_details_encrypted')
+    .eq('buyer_id', userId)
+    .in('status', PAYMENT_DETAILS_VISIBLE_STATUSES)
+    .not('payment_details_encrypted', 'is', null);
+
+  if (tradesError) throw tradesError;
+
+  for (const trade of trades || []) {
+    const reencrypted = await reencryptForNewKeys(trade.payment_details_encrypted, userId, userId);
+    if (!reencrypted) continue;
+
+    // Conditional so a copy the seller shared meanwhile isn't overwritten
+    await supabase
+      .from('p2p_fiat_trades')
+      .update({ payment_details_encrypted: reencrypted })
+      .eq('id', trade.id)
+      .eq('payment_details_encrypted', trade.payment_details_encrypted);
   }
 }
 
@@ -423,8 +643,8 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
     amountCrypto,
     fiatCurrency,
     fiatAmount,
-    paymentMethodId,
-    paymentDetails,
+    paymentMethods,
+    pricing,
     timeLimitMinutes = DEFAULT_PAYMENT_DEADLINE_MINUTES,
     minOrderAmount,
     maxOrderAmount,
@@ -436,23 +656,43 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
     const sessionToken = localStorage.getItem('p2p_session');
     if (!sessionToken) throw new Error('Not authenticated. Please log in again.');
 
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    if (paymentMethods.length === 0) throw new Error('Select at least one payment method');
+    if (pricing) {
+      const pricingError = validateFloatingPricing(pricing);
+      if (pricingError) throw new Error(pricingError);
+    }
+
     toast.info('Creating offer...');
 
-    // Encrypt payment details (AES-256-GCM) before sending
-    const encryptedDetails = await encryptPaymentDetails(paymentDetails);
+    // Encrypt each method's details to the owner's own keys; they are re-encrypted per trade
+    await publishPublicKey(userId);
+    const encryptedMethods: OfferPaymentMethod[] = await Promise.all(
+      paymentMethods.map(async (method) => ({
+        payment_method_id: method.paymentMethodId,
+        payment_details_encrypted: await encryptForUser(method.paymentDetails, userId)
+      }))
+    );
+    const [primaryMethod] = encryptedMethods;
 
     // Call Edge Function (handles escrow locking + offer creation with service role)
     const { data, error } = await supabase.functions.invoke('create-offer-telegram', {
       body: {
         sessionToken,
         token,
-        amountCrypto,
+        amountCrypto: amountParam(amountCrypto),
         fiatCurrency,
-        fiatAmount,
-        paymentMethodId,
-        paymentDetailsEncrypted: encryptedDetails,
-        minOrderAmount: minOrderAmount || null,
-        maxOrderAmount: maxOrderAmount || null,
+        fiatAmount: amountParam(fiatAmount),
+        paymentMethodId: primaryMethod.payment_method_id,
+        paymentDetailsEncrypted: primaryMethod.payment_details_encrypted,
+        paymentMethods: encryptedMethods,
+        priceType: pricing ? 'floating' : 'fixed',
+        priceMarginPercent: pricing?.marginPercent ?? null,
+        priceFloor: pricing?.floorPrice || null,
+        priceCeiling: pricing?.ceilingPrice || null,
+        minOrderAmount: minOrderAmount !== undefined ? amountParam(minOrderAmount) : null,
+        maxOrderAmount: maxOrderAmount !== undefined ? amountParam(maxOrderAmount) : null,
         timeLimitMinutes,
         adType
       }
@@ -467,7 +707,7 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
       throw new Error(data?.error || 'Failed to create offer');
     }
 
-    toast.success(`Offer created! Selling ${amountCrypto} ${token} for ${fiatAmount} ${fiatCurrency}`);
+    toast.success(`Offer created! Selling ${formatCrypto(amountCrypto, token)} for ${formatFiat(fiatAmount, fiatCurrency)}`);
 
     return data.offer_id;
   } catch (error: unknown) {
@@ -483,265 +723,1009 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
 // =====================================================
 
 /**
- * Accept a P2P fiat offer (buyer)
+ * Accept a P2P fiat offer
+ *
+ * - Sell ad: the taker is the buyer; the crypto is already locked in the offer
+ * - Buy ad: the taker is the seller; their crypto is locked from their internal balance
+ *   and their payment details are encrypted to the ad owner (the buyer)
  */
 export async function acceptFiatOffer(params: AcceptOfferParams): Promise<string> {
-  const { offerId, amount } = params;
-
   try {
-    // 1. Get current user
     const userId = await getCurrentUserId();
     if (!userId) throw new Error('Not authenticated');
 
-    // 2. Get offer to determine amount if not specified
-    const { data: offer, error: offerError } = await supabase
-      .from('p2p_fiat_offers')
-      .select('remaining_amount, min_buyer_completed_trades, min_buyer_reputation')
-      .eq('id', offerId)
-      .single();
+    const { tradeId, takerIsSeller } = await startTrade(params, userId);
 
-    if (offerError) throw offerError;
-    if (!offer) throw new Error('Offer not found');
+    toast.success(takerIsSeller
+      ? 'Trade started! Your crypto is locked in escrow until you confirm payment.'
+      : 'Trade started! Send payment within time limit.');
 
-    const tradeAmount = amount || offer.remaining_amount;
+    return tradeId;
+  } catch (error: unknown) {
+    console.error('Accept offer error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to accept offer';
+    toast.error(message);
+    throw error;
+  }
+}
 
-    // 3. Check buyer reputation requirements
-    if (offer.min_buyer_completed_trades > 0 || offer.min_buyer_reputation > 0) {
-      const { data: reputation } = await supabase
-        .from('p2p_reputation')
-        .select('completed_trades, reputation_score')
-        .eq('user_id', userId)
-        .single();
+/**
+ * Open a trade on an offer (shared by single-offer and Express orders, no toasts)
+ */
+async function startTrade(
+  params: AcceptOfferParams,
+  userId: string
+): Promise<{ tradeId: string; takerIsSeller: boolean }> {
+  const { offerId, amount, expectedPrice, paymentMethodId, paymentDetails, orderGroupId } = params;
+
+  // 1. Get offer to determine amount if not specified
+  const { data: offer, error: offerError } = await supabase
+    .from('p2p_fiat_offers')
+    .select('seller_id, ad_type, token, fiat_currency, payment_method_id, payment_details_encrypted, payment_methods, remaining_amount, min_buyer_completed_trades, min_buyer_reputation')
+    .eq('id', offerId)
+    .single();
+
+  if (offerError) throw offerError;
+  if (!offer) throw new Error('Offer not found');
+  if (offer.seller_id === userId) throw new Error('You cannot trade with your own offer');
+  if (getOfferPaymentDetails(offer, paymentMethodId) === null) {
+    throw new Error('This offer does not accept the selected payment method');
+  }
 
-      if (!reputation) {
-        throw new Error('Seller requires experienced buyers');
-      }
-      if (reputation.completed_trades < offer.min_buyer_completed_trades) {
-        throw new Error(`Minimum ${offer.min_buyer_completed_trades} completed trades required`);
-      }
-      if (reputation.reputation_score < offer.min_buyer_reputation) {
-        throw new Error(`Minimum reputation score ${offer.min_buyer_reputation} required`);
-      }
-    }
+  const tradeAmount = roundCrypto(amount ?? offer.remaining_amount, offer.token);
+  if (compareCrypto(tradeAmount, offer.remaining_amount, offer.token) > 0) {
+    throw new Error(`Only ${offer.remaining_amount} ${offer.token} is left on this offer`);
+  }
+  const takerIsSeller = offer.ad_type === 'buy';
 
-    // 4. Call atomic database function (prevents race condition)
-    const { data: result, error: rpcError } = await supabase.rpc('accept_p2p_offer', {
-      p_offer_id: offerId,
-      p_buyer_id: userId,
-      p_buyer_wallet: params.buyerWallet,
-      p_amount: tradeAmount
-    });
+  // 2. Check taker reputation requirements
+  if (offer.min_buyer_completed_trades > 0 || offer.min_buyer_reputation > 0) {
+    const { data: reputation } = await supabase
+      .from('p2p_reputation')
+      .select('completed_trades, reputation_score')
+      .eq('user_id', userId)
+      .single();
 
-    if (rpcError) throw rpcError;
+    if (!reputation) {
+      throw new Error(takerIsSeller ? 'Buyer requires experienced sellers' : 'Seller requires experienced buyers');
+    }
+    if (reputation.completed_trades < offer.min_buyer_completed_trades) {
+      throw new Error(`Minimum ${offer.min_buyer_completed_trades} completed trades required`);
+    }
+    if (reputation.reputation_score < offer.min_buyer_reputation) {
+      throw new Error(`Minimum reputation score ${offer.min_buyer_reputation} required`);
+    }
+  }
 
-    // Parse result
-    const response = typeof result === 'string' ? JSON.parse(result) : result;
+  // 3. Call atomic database function (prevents race condition).
+  // The server locks the price: the offer's fixed price, or the reference price plus its margin.
+  // The price the taker saw only bounds how far that locked price may have moved.
+  const priceCheck = {
+    p_expected_price: expectedPrice ?? null,
+    p_price_tolerance_percent: TRADE_PRICE_TOLERANCE_PERCENT
+  };
+
+  let result: unknown;
+  if (takerIsSeller) {
+    if (!paymentDetails || Object.keys(paymentDetails).length === 0) {
+      throw new Error('Enter your payment details so the buyer can pay you');
+    }
 
-    if (!response.success) {
-      throw new Error(response.error || 'Failed to accept offer');
+    const balance = await getInternalBalance(offer.token);
+    if (!balance || compareCrypto(balance.available_balance, tradeAmount, offer.token) < 0) {
+      throw new Error(`Insufficient ${offer.token} balance. Deposit first to sell.`);
     }
 
-    // 5. Audit log
-    await logAction('trade', response.trade_id, 'accept_offer', {
-      offer_id: offerId,
-      crypto_amount: response.crypto_amount,
-      fiat_amount: response.fiat_amount
+    // Payment details go straight to the ad owner, who is the buyer of this trade
+    const encryptedForBuyer = await encryptForUser(paymentDetails, offer.seller_id);
+
+    const { data, error: rpcError } = await supabase.rpc('accept_p2p_buy_offer', {
+      p_offer_id: offerId,
+      p_seller_id: userId,
+      p_seller_wallet: params.takerWallet,
+      p_amount: decimalToString(tradeAmount),
+      p_payment_method_id: paymentMethodId,
+      p_payment_details_encrypted: encryptedForBuyer,
+      ...priceCheck,
+      p_order_group_id: orderGroupId ?? null
+    });
+    if (rpcError) throw rpcError;
+    result = data;
+  } else {
+    const { data, error: rpcError } = await supabase.rpc('accept_p2p_offer', {
+      p_offer_id: offerId,
+      p_buyer_id: userId,
+      p_buyer_wallet: params.takerWallet,
+      p_amount: decimalToString(tradeAmount),
+      p_payment_method_id: paymentMethodId,
+      ...priceCheck,
+      p_order_group_id: orderGroupId ?? null
     });
+    if (rpcError) throw rpcError;
+    result = data;
+  }
 
-    toast.success('Trade started! Send payment within time limit.');
+  // Parse result
+  const response = typeof result === 'string' ? JSON.parse(result) : result;
 
-    return response.trade_id;
-  } catch (error: unknown) {
-    console.error('Accept offer error:', error);
-    const message = error instanceof Error ? error.message : 'Failed to accept offer';
-    toast.error(message);
-    throw error;
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to accept offer');
   }
+
+  // 4. Audit log
+  await logAction('trade', response.trade_id, 'accept_offer', {
+    offer_id: offerId,
+    taker_role: takerIsSeller ? 'seller' : 'buyer',
+    payment_method_id: paymentMethodId,
+    expected_price: expectedPrice ?? null,
+    locked_price: response.price_per_unit,
+    order_group_id: orderGroupId ?? null,
+    crypto_amount: response.crypto_amount,
+    fiat_amount: response.fiat_amount
+  });
+
+  return { tradeId: response.trade_id, takerIsSeller };
 }
 
 // =====================================================
-// MARK PAYMENT SENT (Buyer)
+// EXPRESS ORDERS (see express-routing)
 // =====================================================
 
+export interface ExecuteExpressOrderParams {
+  token: CryptoToken;
+  fiat: FiatCurrency;
+  quote: ExpressQuote;
+  takerWallet: string;
+  paymentDetails?: Record<string, string>; // Required when selling
+}
+
+export interface ExpressOrderResult {
+  orderGroupId: string;
+  tradeIds: string[];
+  failedLegs: FillLeg[]; // Legs not opened because an earlier leg failed
+}
+
+function toRoutableOffer(offer: P2PFiatOffer, referencePrice: number | null | undefined): RoutableOffer {
+  return {
+    id: offer.id,
+    seller_id: offer.seller_id,
+    price: getEffectivePrice(offer, referencePrice),
+    remaining_amount: offer.remaining_amount,
+    min_order_amount: offer.min_order_amount,
+    max_order_amount: offer.max_order_amount,
+    min_buyer_completed_trades: offer.min_buyer_completed_trades,
+    min_buyer_reputation: offer.min_buyer_reputation,
+    payment_method_ids: getOfferPaymentMethods(offer).map(m => m.payment_method_id)
+  };
+}
+
 /**
- * Buyer marks payment as sent
+ * Open offers Express can route a buy or sell order to, with floating prices resolved
  */
-export async function markPaymentSent(
-  tradeId: string,
-  paymentProofUrl?: string
-): Promise<void> {
+export async function getExpressOffers(
+  token: CryptoToken,
+  fiat: FiatCurrency,
+  side: ExpressSide
+): Promise<RoutableOffer[]> {
   try {
-    // Update trade
-    const confirmationDeadline = new Date(Date.now() + DEFAULT_CONFIRMATION_DEADLINE_MINUTES * 60 * 1000);
-
-    const { error } = await supabase
-      .from('p2p_fiat_trades')
-      .update({
-        buyer_marked_paid_at: new Date().toISOString(),
-        buyer_payment_proof_url: paymentProofUrl,
-        status: 'payment_sent',
-        confirmation_deadline: confirmationDeadline.toISOString()
-      })
-      .eq('id', tradeId);
+    const { data, error } = await supabase
+      .from('p2p_fiat_offers')
+      .select('*')
+      .eq('token', token)
+      .eq('fiat_currency', fiat)
+      .eq('ad_type', side === 'buy' ? 'sell' : 'buy')
+      .eq('status', 'open')
+      .gt('remaining_amount', 0)
+      .order('price_per_unit', { ascending: side === 'buy' })
+      .limit(EXPRESS_CANDIDATE_LIMIT);
 
     if (error) throw error;
 
-    // Audit log
-    await logAction('trade', tradeId, 'mark_payment_sent', {
-      payment_proof_url: paymentProofUrl
-    });
+    const offers = (data || []) as P2PFiatOffer[];
+    const reference = offers.some(o => o.price_type === 'floating')
+      ? await getReferencePrice(token, fiat)
+      : null;
 
-    toast.success('Payment marked as sent. Waiting for seller confirmation...');
-  } catch (error: unknown) {
-    console.error('Mark payment sent error:', error);
-    const message = error instanceof Error ? error.message : 'Failed to mark payment as sent';
-    toast.error(message);
-    throw error;
+    return offers.map(offer => toRoutableOffer(offer, reference?.price));
+  } catch (error) {
+    console.error('Get express offers error:', error);
+    return [];
   }
 }
 
-// =====================================================
-// CONFIRM PAYMENT RECEIVED (Seller)
-// =====================================================
+/**
+ * Current state of the offers behind a quote, with floating prices resolved.
+ * Offers that were closed or paused since the quote are left out.
+ */
+export async function getQuotedOffers(
+  token: CryptoToken,
+  fiat: FiatCurrency,
+  offerIds: string[]
+): Promise<RoutableOffer[]> {
+  const { data, error } = await supabase
+    .from('p2p_fiat_offers')
+    .select('*')
+    .in('id', offerIds)
+    .eq('status', 'open');
+
+  if (error) throw error;
+
+  const offers = (data || []) as P2PFiatOffer[];
+  const reference = offers.some(o => o.price_type === 'floating')
+    ? await getReferencePrice(token, fiat)
+    : null;
+
+  return offers.map(offer => toRoutableOffer(offer, reference?.price));
+}
 
 /**
- * Seller confirms payment received and releases crypto (OKX-Style Internal Ledger)
+ * Current user's standing for offer eligibility checks
  */
-export async function confirmPaymentReceived(tradeId: string): Promise<void> {
-  try {
-    // 1. Get current user (seller)
-    const sellerId = await getCurrentUserId();
-    if (!sellerId) throw new Error('Not authenticated');
+export async function getTakerProfile(): Promise<TakerProfile | null> {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
 
-    // 2. Get trade details
-    const { data: trade, error: tradeError } = await supabase
-      .from('p2p_fiat_trades')
-      .select('*, p2p_fiat_offers(token)')
-      .eq('id', tradeId)
-      .single();
+  const reputation = await getUserReputation(userId);
+  return {
+    userId,
+    completedTrades: reputation?.completed_trades ?? 0,
+    reputationScore: reputation?.reputation_score ?? 0
+  };
+}
 
-    if (tradeError) throw tradeError;
-    if (!trade) throw new Error('Trade not found');
+/**
+ * Open every leg of a quoted fill plan as one grouped order.
+ * The quote is checked against the current offers first and refused if it
+ * expired or its offers changed beyond the tolerance.
+ * Legs open in plan order; if one fails the remaining legs are skipped and the
+ * trades already opened are kept, so the order ends up partially filled.
+ */
+export async function executeExpressOrder(params: ExecuteExpressOrderParams): Promise<ExpressOrderResult> {
+  const { token, fiat, quote, takerWallet, paymentDetails } = params;
+  const { plan } = quote;
 
-    // Verify caller is the seller
-    if (trade.seller_id !== sellerId) {
-      throw new Error('Only seller can confirm payment');
-    }
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    if (plan.legs.length === 0) throw new Error('No offers available');
+
+    const currentOffers = await getQuotedOffers(token, fiat, plan.legs.map(leg => leg.offerId));
+    const check = validateQuote(quote, currentOffers);
+    if (!check.valid) throw new Error(check.reason);
 
-    if (trade.status !== 'payment_sent') {
-      throw new Error('Payment has not been marked as sent');
+    // Each leg locks crypto from the internal balance, so the whole order must be covered
+    if (plan.side === 'sell') {
+      if (!paymentDetails || Object.keys(paymentDetails).length === 0) {
+        throw new Error('Enter your payment details so the buyers can pay you');
+      }
+      const balance = await getInternalBalance(token);
+      if (!balance || compareCrypto(balance.available_balance, plan.cryptoAmount, token) < 0) {
+        throw new Error(`Insufficient ${token} balance. Deposit first to sell.`);
+      }
     }
 
-    toast.info('Releasing crypto to buyer...');
+    const orderGroupId = crypto.randomUUID();
+    const tradeIds: string[] = [];
+    let failedAt = -1;
+    let failure: unknown = null;
+
+    for (const [index, leg] of plan.legs.entries()) {
+      try {
+        const { tradeId } = await startTrade({
+          offerId: leg.offerId,
+          takerWallet,
+          paymentMethodId: leg.paymentMethodId,
+          amount: leg.cryptoAmount,
+          expectedPrice: leg.pricePerUnit,
+          paymentDetails,
+          orderGroupId
+        }, userId);
+        tradeIds.push(tradeId);
+      } catch (error) {
+        console.error('Express leg error:', error);
+        failedAt = index;
+        failure = error;
+        break;
+      }
+    }
 
-    // 3. Release escrow internally (NO blockchain tx!)
-    const { data: releaseResult, error: releaseError } = await supabase.rpc('release_escrow_internal', {
-      p_from_user_id: trade.seller_id,
-      p_to_user_id: trade.buyer_id,
-      p_token: trade.p2p_fiat_offers.token,
-      p_amount: trade.crypto_amount,
-      p_reference_type: 'trade',
-      p_reference_id: tradeId
-    });
+    if (tradeIds.length === 0) throw failure ?? new Error('Failed to start trade');
 
-    if (releaseError) throw releaseError;
+    const failedLegs = failedAt >= 0 ? plan.legs.slice(failedAt) : [];
 
-    // Parse result
-    const releaseResponse = typeof releaseResult === 'string' ? JSON.parse(releaseResult) : releaseResult;
+    await logAction('express_order', orderGroupId, 'execute_express_order', {
+      quote_id: quote.id,
+      side: plan.side,
+      trade_ids: tradeIds,
+      blended_rate: decimalToString(plan.blendedRate),
+      failed_legs: failedLegs.length
+    });
 
-    if (!releaseResponse.success) {
-      throw new Error(releaseResponse.error || 'Failed to release escrow');
+    if (failedLegs.length > 0) {
+      toast.warning(`Order partially filled: ${tradeIds.length} of ${plan.legs.length} trades opened`);
+    } else {
+      toast.success(tradeIds.length > 1
+        ? `Express order placed across ${tradeIds.length} merchants`
+        : 'Express trade started!');
     }
 
-    // 4. Update trade status
-    const { error: updateError } = await supabase
-      .from('p2p_fiat_trades')
-      .update({
-        seller_confirmed_at: new Date().toISOString(),
-        escrow_released_at: new Date().toISOString(),
-        status: 'completed',
-        completed_at: new Date().toISOString()
-      })
-      .eq('id', tradeId);
-
-    if (updateError) throw updateError;
+    return { orderGroupId, tradeIds, failedLegs };
+  } catch (error: unknown) {
+    console.error('Express order error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to start trade';
+    toast.error(message);
+    throw error;
+  }
+}
 
-    // 5. Update reputations
-    await updateReputations(trade.seller_id, trade.buyer_id, tradeId);
+// =====================================================
+// OFFER MANAGEMENT (Owner)
+// =====================================================
 
-    // 6. Audit log
-    await logAction('trade', tradeId, 'confirm_payment', {
-      released_amount: trade.crypto_amount,
-      token: trade.p2p_fiat_offers.token,
-      escrow_type: 'internal_ledger'
+/**
+ * Get the current user's own offers (Edge Function bypasses RLS for Telegram auth)
+ */
+export async function getMyOffers(): Promise<P2PFiatOffer[]> {
+  try {
+    const sessionToken = localStorage.getItem('p2p_session');
+    if (!sessionToken) return [];
+
+    const { data, error } = await supabase.functions.invoke('get-my-offers', {
+      body: { sessionToken }
     });
 
-    toast.success('Payment confirmed! Crypto released to buyer\'s balance.');
+    if (error) throw error;
+    return data?.offers || [];
+  } catch (error) {
+    console.error('Get my offers error:', error);
+    return [];
+  }
+}
+
+/**
+ * Count trades against an offer that still hold part of its escrow
+ */
+export async function countOpenTradesForOffer(offerId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('p2p_fiat_trades')
+    .select('*', { count: 'exact', head: true })
+    .eq('offer_id', offerId)
+    .in('status', OPEN_TRADE_STATUSES);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+// Columns of an offer update; amounts go out as exact decimal strings
+type OfferPatch = { [K in keyof P2PFiatOffer]?: P2PFiatOffer[K] | string };
+
+/**
+ * Exact decimal string for an amount sent to the API
+ */
+function amountParam(value: DecimalInput): string {
+  return decimalToString(toDecimal(value));
+}
+
+/**
+ * Load an offer owned by the caller and make sure it can be modified.
+ * Changes to price, amount or status that open trades depend on require those trades to finish first;
+ * pausing and resuming only hide or show the ad, so they pass `allowOpenTrades`.
+ */
+async function prepareOfferChange(
+  offerId: string,
+  allowedStatuses: OfferStatus[],
+  allowOpenTrades = false
+): Promise<{ offer: P2PFiatOffer; userId: string }> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('Not authenticated');
+
+  const { data: offer, error } = await supabase
+    .from('p2p_fiat_offers')
+    .select('*')
+    .eq('id', offerId)
+    .single();
+
+  if (error) throw error;
+  if (!offer) throw new Error('Offer not found');
+  if (offer.seller_id !== userId) throw new Error('You can only manage your own offers');
+  if (!allowedStatuses.includes(offer.status)) {
+    throw new Error(`Offer cannot be changed while ${offer.status}`);
+  }
+
+  if (allowOpenTrades) return { offer, userId };
+
+  const openTrades = await countOpenTradesForOffer(offerId);
+  if (openTrades > 0) {
+    throw new Error(`Offer has ${openTrades} open trade${openTrades > 1 ? 's' : ''}. Finish them first.`);
+  }
+
+  return { offer, userId };
+}
+
+/**
+ * Call an internal ledger function and unwrap its { success, error } result
+ */
+async function callLedger(fn: string, params: Record<string, unknown>, fallbackError: string): Promise<void> {
+  const { data, error } = await supabase.rpc(fn, params);
+  if (error) throw error;
+
+  const response = typeof data === 'string' ? JSON.parse(data) : data;
+  if (!response?.success) {
+    throw new Error(response?.error || fallbackError);
+  }
+}
+
+async function updateOwnOffer(offerId: string, userId: string, patch: OfferPatch): Promise<void> {
+  const { error } = await supabase
+    .from('p2p_fiat_offers')
+    .update(patch)
+    .eq('id', offerId)
+    .eq('seller_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Apply a change to an own offer only while its status and remaining amount are still
+ * what was read, so a trade accepted in between is never overwritten
+ */
+async function claimOfferChange(offer: P2PFiatOffer, userId: string, patch: OfferPatch): Promise<void> {
+  const { data, error } = await supabase
+    .from('p2p_fiat_offers')
+    .update(patch)
+    .eq('id', offer.id)
+    .eq('seller_id', userId)
+    .eq('status', offer.status)
+    .eq('remaining_amount', offer.remaining_amount)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Offer changed. Please refresh and try again.');
+  }
+}
+
+/**
+ * Undo a claimed offer change whose escrow move failed, unless the offer changed again since
+ */
+async function revertOfferChange(offer: P2PFiatOffer, patch: OfferPatch): Promise<void> {
+  const keys = Object.keys(patch) as (keyof P2PFiatOffer)[];
+  const { error } = await supabase
+    .from('p2p_fiat_offers')
+    .update(Object.fromEntries(keys.map(key => [key, offer[key] ?? null])))
+    .eq('id', offer.id)
+    .eq('status', patch.status ?? offer.status)
+    .eq('remaining_amount', patch.remaining_amount ?? offer.remaining_amount);
+
+  if (error) console.error('Revert offer change error:', error);
+}
+
+/**
+ * Pause an open offer (hidden from the market, escrow stays locked)
+ */
+export async function pauseOffer(offerId: string): Promise<void> {
+  try {
+    const { userId } = await prepareOfferChange(offerId, ['open'], true);
+    await updateOwnOffer(offerId, userId, { status: 'paused' });
+    await logAction('offer', offerId, 'pause_offer', {});
+    toast.success('Offer paused');
   } catch (error: unknown) {
-    console.error('Confirm payment error:', error);
-    const message = error instanceof Error ? error.message : 'Failed to confirm payment';
+    console.error('Pause offer error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to pause offer';
+    toast.error(message);
+    throw error;
+  }
+}
+
+/**
+ * Resume a paused offer
+ */
+export async function resumeOffer(offerId: string): Promise<void> {
+  try {
+    const { offer, userId } = await prepareOfferChange(offerId, ['paused'], true);
+    if (offer.remaining_amount <= 0) throw new Error('Offer has nothing left to trade');
+
+    await updateOwnOffer(offerId, userId, { status: 'open' });
+    await logAction('offer', offerId, 'resume_offer', {});
+    toast.success('Offer resumed');
+  } catch (error: unknown) {
+    console.error('Resume offer error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to resume offer';
+    toast.error(message);
+    throw error;
+  }
+}
+
+/**
+ * Change an offer's price per unit
+ */
+export async function repriceOffer(offerId: string, pricePerUnit: number): Promise<void> {
+  try {
+    if (!(pricePerUnit > 0)) throw new Error('Price must be greater than 0');
+
+    const { offer, userId } = await prepareOfferChange(offerId, ['open', 'paused']);
+
+    await updateOwnOffer(offerId, userId, {
+      price_per_unit: pricePerUnit,
+      fiat_amount: decimalToString(fiatTotal(offer.amount_crypto, pricePerUnit, offer.fiat_currency))
+    });
+
+    await logAction('offer', offerId, 'reprice_offer', {
+      old_price: offer.price_per_unit,
+      new_price: pricePerUnit
+    });
+
+    toast.success('Offer price updated');
+  } catch (error: unknown) {
+    console.error('Reprice offer error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update price';
+    toast.error(message);
+    throw error;
+  }
+}
+
+/**
+ * Change the margin and limits of a floating-price offer
+ */
+export async function updateOfferPricing(offerId: string, pricing: FloatingPricing): Promise<void> {
+  try {
+    const pricingError = validateFloatingPricing(pricing);
+    if (pricingError) throw new Error(pricingError);
+
+    const { offer, userId } = await prepareOfferChange(offerId, ['open', 'paused']);
+    if (offer.price_type !== 'floating') throw new Error('Only floating-price offers have a margin');
+
+    await updateOwnOffer(offerId, userId, {
+      price_margin_percent: pricing.marginPercent,
+      price_floor: pricing.floorPrice || null,
+      price_ceiling: pricing.ceilingPrice || null
+    });
+
+    await logAction('offer', offerId, 'update_offer_pricing', {
+      old_margin: offer.price_margin_percent,
+      new_margin: pricing.marginPercent,
+      floor: pricing.floorPrice || null,
+      ceiling: pricing.ceilingPrice || null
+    });
+
+    toast.success('Offer pricing updated');
+  } catch (error: unknown) {
+    console.error('Update offer pricing error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update pricing';
+    toast.error(message);
+    throw error;
+  }
+}
+
+/**
+ * Change the amount still available on an offer.
+ * Sell ads lock the extra crypto (or refund the excess) through the internal ledger.
+ */
+export async function resizeOffer(offerId: string, newRemainingAmount: DecimalInput): Promise<void> {
+  try {
+    const requested = toDecimal(newRemainingAmount);
+    if (isZero(requested) || isNegative(requested)) throw new Error('Amount must be greater than 0');
+
+    const { offer, userId } = await prepareOfferChange(offerId, ['open', 'paused']);
+    const delta = subtractCrypto(requested, offer.remaining_amount, offer.token);
+    if (isZero(delta)) return;
+
+    // Claim the new amount first, then move the difference in escrow
+    const amountCrypto = addCrypto(offer.amount_crypto, delta, offer.token);
+    const patch: OfferPatch = {
+      amount_crypto: decimalToString(amountCrypto),
+      remaining_amount: decimalToString(roundCrypto(requested, offer.token)),
+      fiat_amount: decimalToString(fiatTotal(amountCrypto, offer.price_per_unit, offer.fiat_currency))
+    };
+    await claimOfferChange(offer, userId, patch);
+
+    if (offer.ad_type !== 'buy') {
+      try {
+        if (!isNegative(delta)) {
+          await callLedger('lock_escrow_internal', {
+            p_user_id: userId,
+            p_token: offer.token,
+            p_amount: decimalToString(delta),
+            p_reference_type: 'offer',
+            p_reference_id: offerId
+          }, 'Insufficient available balance');
+        } else {
+          await callLedger('refund_escrow_internal', {
+            p_user_id: userId,
+            p_token: offer.token,
+            p_amount: decimalToString(subtractCrypto(0, delta, offer.token)),
+            p_reference_type: 'offer',
+            p_reference_id: offerId,
+            p_relock_for_offer: null
+          }, 'Failed to unlock escrow');
+        }
+      } catch (ledgerError) {
+        await revertOfferChange(offer, patch);
+        throw ledgerError;
+      }
+    }
+
+    await logAction('offer', offerId, 'resize_offer', {
+      old_remaining: offer.remaining_amount,
+      new_remaining: decimalToString(requested),
+      token: offer.token
+    });
+
+    toast.success('Offer amount updated');
+  } catch (error: unknown) {
+    console.error('Resize offer error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update amount';
+    toast.error(message);
+    throw error;
+  }
+}
+
+/**
+ * Close an offer for good and unlock its remaining escrow back to available_balance
+ */
+export async function closeOffer(offerId: string): Promise<void> {
+  try {
+    const { offer, userId } = await prepareOfferChange(offerId, ['open', 'paused', 'locked']);
+
+    // Take the offer off the market first, so no trade can take the amount that is about to be refunded
+    const patch: Partial<P2PFiatOffer> = { status: 'cancelled', remaining_amount: 0 };
+    await claimOfferChange(offer, userId, patch);
+
+    if (offer.ad_type !== 'buy' && offer.remaining_amount > 0) {
+      try {
+        await callLedger('refund_escrow_internal', {
+          p_user_id: userId,
+          p_token: offer.token,
+          p_amount: offer.remaining_amount,
+          p_reference_type: 'offer',
+          p_reference_id: offerId,
+          p_relock_for_offer: null
+        }, 'Failed to unlock escrow');
+      } catch (refundError) {
+        // The escrow is still locked, so put the offer back the way it was
+        await revertOfferChange(offer, patch);
+        throw refundError;
+      }
+    }
+
+    await logAction('offer', offerId, 'close_offer', {
+      refunded_amount: offer.ad_type !== 'buy' ? offer.remaining_amount : 0,
+      token: offer.token
+    });
+
+    toast.success('Offer closed. Remaining escrow returned to your balance.');
+  } catch (error: unknown) {
+    console.error('Close offer error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to close offer';
     toast.error(message);
     throw error;
   }
 }
 
 // =====================================================
-// CANCEL TRADE
+// TRADE TRANSITIONS (see trade-state-machine)
 // =====================================================
 
+interface TradeWithOffer extends P2PFiatTrade {
+  p2p_fiat_offers: { token: CryptoToken; ad_type: 'buy' | 'sell' } | null;
+}
+
+const NOTIFICATION_BY_ACTION: Partial<Record<TradeAction, { type: string; title: string; message: string }>> = {
+  mark_paid: { type: 'payment_sent', title: 'Payment Sent', message: 'Buyer marked the payment as sent. Please check your account.' },
+  confirm_payment: { type: 'payment_confirmed', title: 'Payment Confirmed', message: 'Seller confirmed your payment. Crypto has been released.' },
+  cancel: { type: 'trade_cancelled', title: 'Trade Cancelled', message: 'The buyer cancelled the trade.' },
+  expire: { type: 'trade_cancelled', title: 'Trade Expired', message: 'The payment deadline passed and the trade was cancelled.' },
+  open_dispute: { type: 'dispute_opened', title: 'Dispute Opened', message: 'A dispute has been opened for your trade.' },
+  resolve_release: { type: 'payment_confirmed', title: 'Dispute Resolved', message: 'The dispute was resolved and crypto was released to the buyer.' },
+  resolve_refund: { type: 'trade_cancelled', title: 'Dispute Resolved', message: 'The dispute was resolved and the escrow was refunded to the seller.' }
+};
+
+// Counterparty notification fields that replace the action's defaults
+type NotificationOverrides = Partial<{ message: string; reference_type: string; reference_id: string }>;
+
 /**
- * Cancel a trade (buyer only, before payment sent)
+ * Load a trade and validate that the caller may run the given action on it
  */
-export async function cancelTrade(tradeId: string, reason?: string): Promise<void> {
-  try {
-    const userId = await getCurrentUserId();
-    if (!userId) throw new Error('Not authenticated');
+async function prepareTransition(
+  tradeId: string,
+  action: TradeAction,
+  actingRole?: TradeRole
+): Promise<{ trade: TradeWithOffer; transition: TradeTransition; userId: string | null; role: TradeRole }> {
+  const userId = await getCurrentUserId();
+  if (!userId && !actingRole) throw new Error('Not authenticated');
 
-    // 1. Get trade details
-    const { data: trade, error: tradeError } = await supabase
-      .from('p2p_fiat_trades')
-      .select('*')
-      .eq('id', tradeId)
-      .single();
+  const { data: trade, error: tradeError } = await supabase
+    .from('p2p_fiat_trades')
+    .select('*, p2p_fiat_offers(token, ad_type)')
+    .eq('id', tradeId)
+    .single();
 
-    if (tradeError) throw tradeError;
-    if (!trade) throw new Error('Trade not found');
+  if (tradeError) throw tradeError;
+  if (!trade) throw new Error('Trade not found');
+
+  const role = actingRole || getTradeRole(trade, userId);
+  const transition = assertTransition(trade.status, action, role);
+
+  return { trade, transition, userId, role: role as TradeRole };
+}
 
-    // Only allow cancellation if pending
-    if (trade.status !== 'pending') {
-      throw new Error('Trade cannot be cancelled at this stage');
+/**
+ * Run the escrow side effects of a transition (only after commitTransition claimed it)
+ */
+async function runEscrowEffects(trade: TradeWithOffer, transition: TradeTransition): Promise<void> {
+  const token = trade.p2p_fiat_offers?.token;
+
+  if (transition.effects.includes('release_escrow')) {
+    // Release escrow internally (NO blockchain tx!)
+    const { data: releaseResult, error: releaseError } = await supabase.rpc('release_escrow_internal', {
+      p_from_user_id: trade.seller_id,
+      p_to_user_id: trade.buyer_id,
+      p_token: token,
+      p_amount: trade.crypto_amount,
+      p_reference_type: 'trade',
+      p_reference_id: trade.id
+    });
+
+    if (releaseError) throw releaseError;
+
+    const releaseResponse = typeof releaseResult === 'string' ? JSON.parse(releaseResult) : releaseResult;
+    if (!releaseResponse.success) {
+      throw new Error(releaseResponse.error || 'Failed to release escrow');
+    }
+  }
+
+  if (transition.effects.includes('refund_escrow')) {
+    // Return the trade's escrow to the seller (escrow_refund ledger entry).
+    // For sell ads whose offer is restored, the amount stays locked for that offer;
+    // for buy ads the seller locked it at acceptance, so it goes back to available_balance.
+    const relockForOffer = transition.effects.includes('restore_offer') && trade.p2p_fiat_offers?.ad_type !== 'buy';
+    const { data: refundResult, error: refundError } = await supabase.rpc('refund_escrow_internal', {
+      p_user_id: trade.seller_id,
+      p_token: token,
+      p_amount: trade.crypto_amount,
+      p_reference_type: 'trade',
+      p_reference_id: trade.id,
+      p_relock_for_offer: relockForOffer ? trade.offer_id : null
+    });
+
+    if (refundError) throw refundError;
+
+    const refundResponse = typeof refundResult === 'string' ? JSON.parse(refundResult) : refundResult;
+    if (!refundResponse.success) {
+      throw new Error(refundResponse.error || 'Failed to refund escrow');
     }
+  }
+}
 
-    // 2. Update trade status
-    const { error: updateError } = await supabase
+/**
+ * Move the trade to the transition's target status.
+ * The update is conditional on the current status, so of concurrent actions
+ * only one claims the trade; the others fail here before moving any funds.
+ */
+async function commitTransition(
+  trade: TradeWithOffer,
+  transition: TradeTransition,
+  patch: Record<string, unknown> = {}
+): Promise<Record<string, unknown>> {
+  const update: Record<string, unknown> = { ...patch, status: transition.to };
+
+  if (transition.effects.includes('set_confirmation_deadline')) {
+    update.confirmation_deadline = new Date(
+      Date.now() + DEFAULT_CONFIRMATION_DEADLINE_MINUTES * 60 * 1000
+    ).toISOString();
+  }
+
+  const { data, error } = await supabase
+    .from('p2p_fiat_trades')
+    .update(update)
+    .eq('id', trade.id)
+    .eq('status', trade.status)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Trade status changed. Please refresh and try again.');
+  }
+  return update;
+}
+
+/**
+ * Claim the transition, then move the escrow. If the ledger call fails the
+ * claim is handed back, so the trade doesn't end up in a status its funds don't match.
+ */
+async function commitEscrowTransition(
+  trade: TradeWithOffer,
+  transition: TradeTransition,
+  patch: Record<string, unknown> = {}
+): Promise<void> {
+  const update = await commitTransition(trade, transition, patch);
+
+  try {
+    await runEscrowEffects(trade, transition);
+  } catch (error) {
+    const isTradeColumn = (key: string): key is keyof TradeWithOffer => key in trade;
+    const { error: revertError } = await supabase
       .from('p2p_fiat_trades')
-      .update({
-        status: 'cancelled',
-        cancelled_by: userId,
-        cancel_reason: reason,
-      })
-      .eq('id', tradeId);
+      .update(Object.fromEntries(Object.keys(update).map(key => [key, isTradeColumn(key) ? trade[key] ?? null : null])))
+      .eq('id', trade.id)
+      .eq('status', transition.to);
 
-    if (updateError) throw updateError;
+    if (revertError) console.error('Revert trade transition error:', revertError);
+    throw error;
+  }
+}
 
-    // 3. Restore offer remaining amount
-    const { data: offer } = await supabase
+/**
+ * Give a cancelled or expired trade's amount back to its offer. The increment is
+ * guarded on the amount read, so a trade accepted at the same time is not lost.
+ */
+async function restoreOfferAmount(trade: TradeWithOffer): Promise<void> {
+  for (let attempt = 0; attempt < OFFER_UPDATE_ATTEMPTS; attempt++) {
+    const { data: offer, error } = await supabase
       .from('p2p_fiat_offers')
-      .select('remaining_amount')
+      .select('status, remaining_amount')
       .eq('id', trade.offer_id)
       .single();
 
-    if (offer) {
-      await supabase
-        .from('p2p_fiat_offers')
-        .update({
-          remaining_amount: offer.remaining_amount + trade.crypto_amount,
-          status: 'open',
-        })
-        .eq('id', trade.offer_id);
+    if (error) throw error;
+    if (!offer) return;
+
+    const { data: updated, error: updateError } = await supabase
+      .from('p2p_fiat_offers')
+      .update({
+        remaining_amount: decimalToString(addCrypto(offer.remaining_amount, trade.crypto_amount, trade.p2p_fiat_offers?.token)),
+        status: REOPENED_OFFER_STATUSES.includes(offer.status) ? 'open' : offer.status
+      })
+      .eq('id', trade.offer_id)
+      .eq('status', offer.status)
+      .eq('remaining_amount', offer.remaining_amount)
+      .select('id');
+
+    if (updateError) throw updateError;
+    if (updated && updated.length > 0) return;
+  }
+
+  throw new Error('Offer kept changing while its amount was restored');
+}
+
+/**
+ * Run the follow-up side effects of a transition (after the status changed)
+ */
+async function runFollowUpEffects(
+  trade: TradeWithOffer,
+  transition: TradeTransition,
+  role: TradeRole,
+  overrides: NotificationOverrides = {}
+): Promise<void> {
+  if (transition.effects.includes('restore_offer')) {
+    try {
+      await restoreOfferAmount(trade);
+    } catch (error) {
+      console.error('Restore offer amount error:', error);
+    }
+  }
+
+  if (transition.effects.includes('update_reputation')) {
+    await updateReputations(trade.seller_id, trade.buyer_id, trade.id);
+  }
+
+  if (transition.effects.includes('notify_counterparty')) {
+    const notification = NOTIFICATION_BY_ACTION[transition.action];
+    const recipients = role === 'buyer' ? [trade.seller_id]
+      : role === 'seller' ? [trade.buyer_id]
+      : [trade.buyer_id, trade.seller_id];
+
+    if (notification) {
+      try {
+        await supabase.from('p2p_notifications').insert(
+          recipients.map(userId => ({
+            user_id: userId,
+            ...notification,
+            reference_type: 'trade',
+            reference_id: trade.id,
+            ...overrides,
+            is_read: false
+          }))
+        );
+      } catch (error) {
+        console.error('Trade notification error:', error);
+      }
     }
+  }
+}
+
+// =====================================================
+// MARK PAYMENT SENT (Buyer)
+// =====================================================
+
+/**
+ * Buyer marks payment as sent
+ */
+export async function markPaymentSent(
+  tradeId: string,
+  paymentProofUrl?: string
+): Promise<void> {
+  try {
+    const { trade, transition, role } = await prepareTransition(tradeId, 'mark_paid');
+
+    await commitTransition(trade, transition, {
+      buyer_marked_paid_at: new Date().toISOString(),
+      buyer_payment_proof_url: paymentProofUrl
+    });
+
+    await runFollowUpEffects(trade, transition, role);
+
+    // Audit log
+    await logAction('trade', tradeId, 'mark_payment_sent', {
+      payment_proof_url: paymentProofUrl
+    });
+
+    toast.success('Payment marked as sent. Waiting for seller confirmation...');
+  } catch (error: unknown) {
+    console.error('Mark payment sent error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to mark payment as sent';
+    toast.error(message);
+    throw error;
+  }
+}
+
+// =====================================================
+// CONFIRM PAYMENT RECEIVED (Seller)
+// =====================================================
+
+/**
+ * Seller confirms payment received and releases crypto (OKX-Style Internal Ledger)
+ */
+export async function confirmPaymentReceived(tradeId: string): Promise<void> {
+  try {
+    const { trade, transition, role } = await prepareTransition(tradeId, 'confirm_payment');
+
+    toast.info('Releasing crypto to buyer...');
+
+    const now = new Date().toISOString();
+    await commitEscrowTransition(trade, transition, {
+      seller_confirmed_at: now,
+      escrow_released_at: now,
+      completed_at: now
+    });
+
+    await runFollowUpEffects(trade, transition, role);
+
+    // Audit log
+    await logAction('trade', tradeId, 'confirm_payment', {
+      released_amount: trade.crypto_amount,
+      token: trade.p2p_fiat_offers?.token,
+      escrow_type: 'internal_ledger'
+    });
+
+    toast.success('Payment confirmed! Crypto released to buyer\'s balance.');
+  } catch (error: unknown) {
+    console.error('Confirm payment error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to confirm payment';
+    toast.error(message);
+    throw error;
+  }
+}
+
+// =====================================================
+// CANCEL TRADE
+// =====================================================
 
-    // 4. Audit log
+/**
+ * Cancel a trade (buyer only, before payment sent)
+ */
+export async function cancelTrade(tradeId: string, reason?: string): Promise<void> {
+  try {
+    const { trade, transition, userId, role } = await prepareTransition(tradeId, 'cancel');
+
+    await commitEscrowTransition(trade, transition, {
+      cancelled_by: userId,
+      cancel_reason: reason,
+    });
+
+    await runFollowUpEffects(trade, transition, role);
+
+    // Audit log
     await logAction('trade', tradeId, 'cancel_trade', {
       cancelled_by: userId,
       reason,
@@ -756,6 +1740,99 @@ export async function cancelTrade(tradeId: string, reason?: string): Promise<voi
   }
 }
 
+// =====================================================
+// OPEN DISPUTE
+// =====================================================
+
+/**
+ * Move a trade into dispute (buyer or seller, after payment was marked sent).
+ * DisputeModal creates the dispute record first, so arbitrators always have one;
+ * the counterparty's notification gives its reason and points at it.
+ */
+export async function markTradeDisputed(
+  tradeId: string,
+  dispute: { id: string; reason: string }
+): Promise<void> {
+  const { trade, transition, role } = await prepareTransition(tradeId, 'open_dispute');
+
+  await commitTransition(trade, transition);
+  await runFollowUpEffects(trade, transition, role, {
+    message: `A dispute has been opened for your trade. Reason: ${dispute.reason}`,
+    reference_type: 'dispute',
+    reference_id: dispute.id
+  });
+
+  await logAction('trade', tradeId, 'open_dispute', { dispute_id: dispute.id });
+}
+
+// =====================================================
+// PAYMENT DEADLINE EXPIRY (System)
+// =====================================================
+
+/**
+ * Auto-cancel a pending trade whose payment deadline has passed (see isPaymentOverdue).
+ * Refunds the escrow through the internal ledger, restores the offer and notifies both parties.
+ * Returns false if the trade is not (or no longer) overdue.
+ */
+export async function expireTrade(tradeId: string): Promise<boolean> {
+  try {
+    const { data: current } = await supabase
+      .from('p2p_fiat_trades')
+      .select('status, payment_deadline')
+      .eq('id', tradeId)
+      .single();
+
+    if (!current || !isPaymentOverdue(current)) return false;
+
+    const { trade, transition, role } = await prepareTransition(tradeId, 'expire', 'system');
+
+    // Both parties' clients may expire the same trade; only the one that claims it refunds
+    await commitEscrowTransition(trade, transition, {
+      cancel_reason: 'payment_deadline_expired',
+    });
+
+    await runFollowUpEffects(trade, transition, role);
+
+    // Audit log
+    await logAction('trade', tradeId, 'expire_trade', {
+      triggered_by: 'system',
+      payment_deadline: trade.payment_deadline,
+      refunded_amount: trade.crypto_amount,
+      token: trade.p2p_fiat_offers?.token
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Expire trade error:', error);
+    return false;
+  }
+}
+
+/**
+ * Expire every overdue pending trade the user participates in
+ */
+export async function expireOverdueTrades(userId: string): Promise<number> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_fiat_trades')
+      .select('id')
+      .or(`seller_id.eq.${userId},buyer_id.eq.${userId}`)
+      .eq('status', 'pending')
+      .lte('payment_deadline', new Date().toISOString());
+
+    if (error) throw error;
+
+    let expired = 0;
+    for (const { id } of data || []) {
+      if (await expireTrade(id)) expired++;
+    }
+    return expired;
+  } catch (error) {
+    console.error('Expire overdue trades error:', error);
+    return 0;
+  }
+}
+
 // =====================================================
 // HELPER FUNCTIONS
 // =====================================================
@@ -852,22 +1929,76 @@ export async function getActiveOffers(
   }
 }
 
+/**
+ * A single offer in any status, for ad links; null when it doesn't exist
+ */
+export async function getOffer(offerId: string): Promise<P2PFiatOffer | null> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_fiat_offers')
+      .select('*')
+      .eq('id', offerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get offer error:', error);
+    return null;
+  }
+}
+
+type TradeRowWithOffer = P2PFiatTrade & {
+  p2p_fiat_offers: { token: CryptoToken; fiat_currency: FiatCurrency } | null;
+};
+
+// Trades don't store their assets; take them from the offer
+const TRADE_WITH_ASSETS = '*, p2p_fiat_offers(token, fiat_currency)';
+
+function withTradeAssets({ p2p_fiat_offers: offer, ...trade }: TradeRowWithOffer): P2PFiatTrade {
+  return { ...trade, token: offer?.token, fiat_currency: offer?.fiat_currency };
+}
+
 export async function getUserTrades(userId: string): Promise<P2PFiatTrade[]> {
   try {
     const { data, error } = await supabase
       .from('p2p_fiat_trades')
-      .select('*')
+      .select(TRADE_WITH_ASSETS)
       .or(`seller_id.eq.${userId},buyer_id.eq.${userId}`)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return data || [];
+    return ((data || []) as TradeRowWithOffer[]).map(withTradeAssets);
   } catch (error) {
     console.error('Get user trades error:', error);
     return [];
   }
 }
 
+/**
+ * Active and completed trade counts and completed volume of a user.
+ * Read-only: overdue trades are expired by the trade list and the trade view.
+ */
+export async function getTradeStats(userId: string): Promise<TradeStats> {
+  try {
+    const trades = await getUserTrades(userId);
+    const completed = trades.filter(t => t.status === 'completed');
+
+    return {
+      // Overdue pending trades are about to expire, so they no longer count as active
+      activeTrades: trades.filter(t => t.status === 'payment_sent' || (t.status === 'pending' && !isPaymentOverdue(t))).length,
+      completedTrades: completed.length,
+      // Different currencies can't be added up, so volume is kept per currency
+      volume: sumByCurrency(completed
+        .filter(t => t.fiat_currency)
+        .map(t => ({ currency: t.fiat_currency!, amount: t.fiat_amount || 0 })))
+    };
+  } catch (error) {
+    console.error('Get trade stats error:', error);
+    return { activeTrades: 0, completedTrades: 0, volume: [] };
+  }
+}
+
 export async function getUserReputation(userId: string): Promise<P2PReputation | null> {
   try {
     const { data, error } = await supabase
@@ -884,6 +2015,57 @@ export async function getUserReputation(userId: string): Promise<P2PReputation |
   }
 }
 
+/**
+ * Get the profile and reputation of a trade's counterparty
+ */
+export async function getTradeCounterparty(userId: string): Promise<TradeCounterparty | null> {
+  try {
+    const [{ data, error }, reputation] = await Promise.all([
+      supabase
+        .from('p2p_users')
+        .select('id, display_name, telegram_username, avatar_url, wallet_address')
+        .eq('id', userId)
+        .maybeSingle(),
+      getUserReputation(userId)
+    ]);
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      user_id: data.id,
+      display_name: data.display_name,
+      telegram_username: data.telegram_username ?? undefined,
+      avatar_url: data.avatar_url ?? undefined,
+      wallet_address: data.wallet_address ?? '',
+      reputation
+    };
+  } catch (error) {
+    console.error('Get trade counterparty error:', error);
+    return null;
+  }
+}
+
+/**
+ * Check whether a user has already rated their counterparty in a trade
+ */
+export async function hasRatedTrade(tradeId: string, userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_ratings')
+      .select('id')
+      .eq('trade_id', tradeId)
+      .eq('rater_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  } catch (error) {
+    console.error('Has rated trade error:', error);
+    return false;
+  }
+}
+
 /**
  * Get a specific trade by ID
  */
@@ -891,18 +2073,165 @@ export async function getTradeById(tradeId: string): Promise<P2PFiatTrade | null
   try {
     const { data, error } = await supabase
       .from('p2p_fiat_trades')
-      .select('*')
+      .select(TRADE_WITH_ASSETS)
       .eq('id', tradeId)
       .single();
 
     if (error) throw error;
-    return data;
+    return withTradeAssets(data as TradeRowWithOffer);
   } catch (error) {
     console.error('Get trade by ID error:', error);
     return null;
   }
 }
 
+/**
+ * Get the seller's decrypted payment details for a trade.
+ * Only the buyer can see them, and only while the trade is pending or payment_sent.
+ */
+export async function getTradePaymentDetails(tradeId: string): Promise<TradePaymentDetails | null> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+
+    const { data: trade, error: tradeError } = await supabase
+      .from('p2p_fiat_trades')
+      .select('buyer_id, seller_id, status, payment_method_id, payment_details_encrypted, p2p_fiat_offers(payment_method_id)')
+      .eq('id', tradeId)
+      .single();
+
+    if (tradeError) throw tradeError;
+    if (!trade || !canViewPaymentDetails(trade.status, getTradeRole(trade, userId))) return null;
+
+    const offer = Array.isArray(trade.p2p_fiat_offers) ? trade.p2p_fiat_offers[0] : trade.p2p_fiat_offers;
+    if (!offer) return null;
+
+    const { data: method, error: methodError } = await supabase
+      .from('payment_methods')
+      .select('*')
+      .eq('id', trade.payment_method_id || offer.payment_method_id)
+      .single();
+
+    if (methodError) throw methodError;
+
+    if (!trade.payment_details_encrypted) {
+      return { method, fields: [], shared: false };
+    }
+    if (!(await canDecryptForUser(trade.payment_details_encrypted, userId))) {
+      return { method, fields: [], shared: true, missingDeviceKey: true };
+    }
+
+    const details = await decryptPaymentDetails(trade.payment_details_encrypted);
+
+    // Order fields by the method schema, keeping any extra keys the seller supplied
+    const schemaKeys = Object.keys(method.fields || {});
+    const extraKeys = Object.keys(details).filter(key => !schemaKeys.includes(key));
+    const fields = [...schemaKeys, ...extraKeys]
+      .filter(key => details[key])
+      .map(key => ({
+        key,
+        label: formatPaymentFieldLabel(key),
+        value: details[key]
+      }));
+
+    return { method, fields, shared: true };
+  } catch (error) {
+    console.error('Get trade payment details error:', error);
+    return null;
+  }
+}
+
+/**
+ * Seller re-encrypts their offer's payment details to the buyer of a specific trade,
+ * the first time and again whenever the buyer has added a device key since
+ */
+export async function shareTradePaymentDetails(tradeId: string): Promise<PaymentShareResult> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+
+    const { data: trade, error: tradeError } = await supabase
+      .from('p2p_fiat_trades')
+      .select('id, buyer_id, seller_id, status, payment_deadline, payment_method_id, payment_details_encrypted, p2p_fiat_offers(ad_type, time_limit_minutes, payment_method_id, payment_details_encrypted, payment_methods)')
+      .eq('id', tradeId)
+      .single();
+
+    if (tradeError) throw tradeError;
+    if (!trade || trade.seller_id !== userId) return 'unchanged';
+    if (!PAYMENT_DETAILS_VISIBLE_STATUSES.includes(trade.status)) return 'unchanged';
+
+    const current: string | null = trade.payment_details_encrypted;
+    // Details that never arrived in time expire the trade instead (see isPaymentOverdue)
+    if (!current && isPaymentOverdue(trade)) return 'unchanged';
+    if (current) {
+      const buyerKeyIds = (await getUserPublicKeys(trade.buyer_id)).map(key => key.keyId);
+      if (coversKeys(current, buyerKeyIds)) return 'unchanged';
+    }
+
+    const offer = Array.isArray(trade.p2p_fiat_offers) ? trade.p2p_fiat_offers[0] : trade.p2p_fiat_offers;
+    // On buy ads the seller typed their details at acceptance; only the buyer's devices hold them
+    if (!offer || offer.ad_type === 'buy') return 'unchanged';
+
+    // Share the details of the method the buyer chose, not just the offer's primary one
+    const offerDetails = getOfferPaymentDetails(offer, trade.payment_method_id || offer.payment_method_id);
+    if (!offerDetails) return 'unchanged';
+    if (!(await canDecryptForUser(offerDetails, userId))) return 'missing_device_key';
+
+    const details = await decryptForUser(offerDetails, userId);
+    const encryptedForBuyer = await encryptForUser(details, trade.buyer_id);
+
+    // The buyer gets their full payment time once they can see where to pay.
+    // Conditional on the value read above so concurrent shares don't overwrite each other,
+    // and a first share only lands while the trade is still pending (not expired meanwhile).
+    const patch: Record<string, unknown> = { payment_details_encrypted: encryptedForBuyer };
+    if (!current) {
+      patch.payment_deadline = new Date(
+        Date.now() + (offer.time_limit_minutes || DEFAULT_PAYMENT_DEADLINE_MINUTES) * 60 * 1000
+      ).toISOString();
+    }
+    const update = supabase
+      .from('p2p_fiat_trades')
+      .update(patch)
+      .eq('id', tradeId);
+    const { error: updateError } = await (current
+      ? update.eq('payment_details_encrypted', current)
+      : update.is('payment_details_encrypted', null).eq('status', 'pending'));
+
+    if (updateError) throw updateError;
+
+    await logAction('trade', tradeId, current ? 'reshare_payment_details' : 'share_payment_details', {
+      payment_method_id: trade.payment_method_id || offer.payment_method_id,
+      version: PAYMENT_CIPHER_VERSION
+    });
+
+    return 'shared';
+  } catch (error) {
+    console.error('Share payment details error:', error);
+    return 'unchanged';
+  }
+}
+
+/**
+ * Share payment details for every active trade where the user is the seller and the
+ * buyer has no copy yet, or none for a device they added
+ */
+export async function sharePendingTradePaymentDetails(userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('p2p_fiat_trades')
+    .select('id')
+    .eq('seller_id', userId)
+    .in('status', PAYMENT_DETAILS_VISIBLE_STATUSES);
+
+  if (error) {
+    console.error('Get unshared trades error:', error);
+    return;
+  }
+
+  for (const { id } of data || []) {
+    await shareTradePaymentDetails(id);
+  }
+}
+
 // =====================================================
 // INTERNAL BALANCE FUNCTIONS (OKX-Style)
 // =====================================================
@@ -943,7 +2272,7 @@ export async function getInternalBalance(token: CryptoToken): Promise<InternalBa
  */
 export async function requestWithdraw(
   token: CryptoToken,
-  amount: number,
+  amount: DecimalInput,
   walletAddress: string
 ): Promise<string> {
   try {
@@ -951,7 +2280,8 @@ export async function requestWithdraw(
     if (!userId) throw new Error('Not authenticated');
 
     // Validate amount
-    if (amount <= 0) throw new Error('Amount must be greater than 0');
+    const withdrawAmount = toDecimal(amount);
+    if (isZero(withdrawAmount) || isNegative(withdrawAmount)) throw new Error('Amount must be greater than 0');
 
     // Validate wallet address (basic check)
     if (!walletAddress || walletAddress.length < 40) {
@@ -964,7 +2294,7 @@ export async function requestWithdraw(
     const { data, error } = await supabase.rpc('request_withdraw', {
       p_user_id: userId,
       p_token: token,
-      p_amount: amount,
+      p_amount: decimalToString(withdrawAmount),
       p_wallet_address: walletAddress
     });
 
@@ -977,7 +2307,7 @@ export async function requestWithdraw(
       throw new Error(result.error || 'Withdrawal request failed');
     }
 
-    toast.success(`Withdrawal request submitted! ${amount} ${token} will be sent to your wallet.`);
+    toast.success(`Withdrawal request submitted! ${formatCrypto(withdrawAmount, token)} will be sent to your wallet.`);
 
     return result.request_id;
   } catch (error: unknown) {
@@ -0,0 +1,59 @@
+import { expect, test, describe } from 'vitest';
+import {
+  applyMargin,
+  formatMargin,
+  getEffectivePrice,
+  priceDeviationPercent,
+  validateFloatingPricing,
+  weightedMedian
+} from './p2p-pricing';
+
+describe('p2p pricing', () => {
+  test('should apply the margin to the reference price', () => {
+    expect(applyMargin(100, { marginPercent: 2.5 }, 'TRY')).toBe(102.5);
+    expect(applyMargin(100, { marginPercent: -1 }, 'TRY')).toBe(99);
+  });
+
+  test('should round to the fiat precision', () => {
+    expect(applyMargin(10.5, { marginPercent: 3 }, 'TRY')).toBe(10.82);
+    expect(applyMargin(1_234_567, { marginPercent: 1.5 }, 'IRR')).toBe(1_253_086);
+    expect(applyMargin(1_500, { marginPercent: -0.5 }, 'IQD')).toBe(1_493);
+  });
+
+  test('should clamp to the floor and ceiling', () => {
+    expect(applyMargin(100, { marginPercent: -10, floorPrice: 95 }, 'TRY')).toBe(95);
+    expect(applyMargin(100, { marginPercent: 10, ceilingPrice: 105 }, 'TRY')).toBe(105);
+  });
+
+  test('should use the stored price for fixed offers or without a reference', () => {
+    const fixed = { fiat_currency: 'TRY' as const, price_type: 'fixed' as const, price_per_unit: 40 };
+    const floating = { fiat_currency: 'TRY' as const, price_type: 'floating' as const, price_per_unit: 40, price_margin_percent: 5 };
+    expect(getEffectivePrice(fixed, 50)).toBe(40);
+    expect(getEffectivePrice(floating, null)).toBe(40);
+    expect(getEffectivePrice(floating, 50)).toBe(52.5);
+  });
+
+  test('should validate margin and limits', () => {
+    expect(validateFloatingPricing({ marginPercent: 3 })).toBeNull();
+    expect(validateFloatingPricing({ marginPercent: 80 })).not.toBeNull();
+    expect(validateFloatingPricing({ marginPercent: 0, floorPrice: 10, ceilingPrice: 5 })).not.toBeNull();
+  });
+
+  test('should format signed margins', () => {
+    expect(formatMargin(2.5)).toBe('+2.5%');
+    expect(formatMargin(-1)).toBe('-1%');
+    expect(formatMargin(0)).toBe('0%');
+  });
+
+  test('should weight the median by traded volume', () => {
+    expect(weightedMedian([])).toBeNull();
+    expect(weightedMedian([{ price: 10, volume: 1 }, { price: 20, volume: 1 }, { price: 30, volume: 1 }])).toBe(20);
+    expect(weightedMedian([{ price: 10, volume: 1 }, { price: 12, volume: 8 }, { price: 99, volume: 1 }])).toBe(12);
+  });
+
+  test('should measure deviation from the reference', () => {
+    expect(priceDeviationPercent(110, 100)).toBeCloseTo(10);
+    expect(priceDeviationPercent(95, 100)).toBeCloseTo(-5);
+    expect(priceDeviationPercent(95, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * P2P Pricing - Fixed and Floating Offer Prices
+ *
+ * @module p2p-pricing
+ * @description Price math for fixed and margin-pegged (floating) offers
+ *
+ * Floating offers store a margin over the reference price instead of a fixed price.
+ * Their effective price is recomputed whenever the reference moves and clamped to the
+ * merchant's floor/ceiling. The prices here are for display; the server computes and
+ * locks the trade price when an offer is accepted.
+ * Reference prices themselves come from reference-price.
+ */
+
+import type { CryptoToken, FiatCurrency, P2PFiatOffer } from '@/lib/p2p-fiat';
+import { getFiatInfo } from '@/lib/assets';
+import { add, compare, decimalToNumber, divide, multiply, toDecimal } from '@/lib/decimal';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type PriceType = 'fixed' | 'floating';
+
+export interface FloatingPricing {
+  marginPercent: number; // e.g. 2.5 = 2.5% above the reference, -1 = 1% below
+  floorPrice?: number | null;
+  ceilingPrice?: number | null;
+}
+
+export interface PriceSample {
+  price: number;
+  volume: number; // Crypto amount traded at this price
+}
+
+export type OfferPricingFields = Pick<
+  P2PFiatOffer,
+  'fiat_currency' | 'price_type' | 'price_per_unit' | 'price_margin_percent' | 'price_floor' | 'price_ceiling'
+>;
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const MAX_MARGIN_PERCENT = 50;
+
+// How far the locked trade price may move from the price the taker was shown
+export const TRADE_PRICE_TOLERANCE_PERCENT = 0.5;
+
+// Warn when a price is further than this from the reference (overridable in p2p_config)
+export const DEFAULT_PRICE_DEVIATION_WARNING_PERCENT = 10;
+
+// =====================================================
+// PRICE MATH
+// =====================================================
+
+/**
+ * Key used to group reference prices by pair (e.g. "HEZ/TRY")
+ */
+export function pairKey(token: CryptoToken, fiat: FiatCurrency): string {
+  return `${token}/${fiat}`;
+}
+
+/**
+ * Apply a percentage margin to a reference price and clamp it to the floor/ceiling,
+ * at the fiat's precision and rounding mode
+ */
+export function applyMargin(reference: number, pricing: FloatingPricing, currency: FiatCurrency): number {
+  const { decimals, rounding } = getFiatInfo(currency);
+  const base = toDecimal(reference);
+  const factor = add(toDecimal(100), toDecimal(pricing.marginPercent)); // percent of the reference
+  let price = divide(multiply(base, factor, base.scale + factor.scale), toDecimal(100), decimals, rounding);
+
+  if (pricing.floorPrice && compare(price, toDecimal(pricing.floorPrice)) < 0) {
+    price = toDecimal(pricing.floorPrice, decimals, rounding);
+  }
+  if (pricing.ceilingPrice && compare(price, toDecimal(pricing.ceilingPrice)) > 0) {
+    price = toDecimal(pricing.ceilingPrice, decimals, rounding);
+  }
+  return decimalToNumber(price);
+}
+
+/**
+ * Current price of an offer. Floating offers fall back to their last stored
+ * price while no reference price is available.
+ */
+export function getEffectivePrice(offer: OfferPricingFields, referencePrice: number | null | undefined): number {
+  if (offer.price_type !== 'floating' || !referencePrice) {
+    return offer.price_per_unit;
+  }
+
+  return applyMargin(referencePrice, {
+    marginPercent: offer.price_margin_percent ?? 0,
+    floorPrice: offer.price_floor,
+    ceilingPrice: offer.price_ceiling
+  }, offer.fiat_currency);
+}
+
+/**
+ * Validate floating pricing settings, returning an error message or null
+ */
+export function validateFloatingPricing(pricing: FloatingPricing): string | null {
+  if (!Number.isFinite(pricing.marginPercent)) return 'Enter a margin';
+  if (Math.abs(pricing.marginPercent) > MAX_MARGIN_PERCENT) {
+    return `Margin must be between -${MAX_MARGIN_PERCENT}% and +${MAX_MARGIN_PERCENT}%`;
+  }
+  if (pricing.floorPrice != null && pricing.floorPrice < 0) return 'Floor price cannot be negative';
+  if (pricing.ceilingPrice != null && pricing.ceilingPrice <= 0) return 'Ceiling price must be greater than 0';
+  if (pricing.floorPrice && pricing.ceilingPrice && pricing.floorPrice > pricing.ceilingPrice) {
+    return 'Floor price cannot be above the ceiling price';
+  }
+  return null;
+}
+
+/**
+ * Signed margin label (e.g. +2.5%, -1%)
+ */
+export function formatMargin(marginPercent: number): string {
+  const sign = marginPercent > 0 ? '+' : '';
+  return `${sign}${Number(marginPercent.toFixed(2))}%`;
+}
+
+/**
+ * Volume-weighted median: the price at which half of the traded volume is reached.
+ * Large trades count more than small ones, and single outliers can't move it far.
+ */
+export function weightedMedian(samples: PriceSample[]): number | null {
+  const valid = samples.filter(s => s.price > 0 && s.volume > 0).sort((a, b) => a.price - b.price);
+  if (valid.length === 0) return null;
+
+  const totalVolume = valid.reduce((sum, s) => sum + s.volume, 0);
+  let cumulative = 0;
+  for (const sample of valid) {
+    cumulative += sample.volume;
+    if (cumulative >= totalVolume / 2) return sample.price;
+  }
+  return valid[valid.length - 1].price;
+}
+
+/**
+ * Signed distance of a price from the reference, in percent
+ */
+export function priceDeviationPercent(price: number, referencePrice: number): number {
+  if (!referencePrice) return 0;
+  return ((price - referencePrice) / referencePrice) * 100;
+}
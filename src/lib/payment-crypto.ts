@@ -0,0 +1,294 @@
+/**
+ * Payment Details Encryption - Per-Trade End-to-End
+ *
+ * @module payment-crypto
+ * @description ECDH (P-256) + HKDF + AES-256-GCM envelopes for payment details
+ *
+ * Key model:
+ * - Every device of a user has its own ECDH keypair; the private key never leaves it
+ * - Each device publishes its public key to `p2p_user_keys` (one row per key), so
+ *   a new device or cleared storage adds a key instead of replacing the others
+ * - Values are encrypted to all of the recipient's recent device keys
+ * - Offers keep the owner's details encrypted to the owner's own keys
+ * - When a trade starts, the details are re-encrypted to the counterparty of that trade
+ * - A device that can still read a value re-encrypts it when the recipient adds a key
+ *
+ * Ciphertext format (versioned so stored values can be migrated), one envelope per key:
+ *   v2.<recipient key id>.<ephemeral public key>.<iv>.<ciphertext>   (base64url parts)
+ *   joined with `~` when there are several recipient keys
+ * Values without a version header are legacy v1 (shared AES key baked into the bundle)
+ * and are only readable through `decryptLegacyPayload` for migration.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+// =====================================================
+// TYPES & CONSTANTS
+// =====================================================
+
+export const PAYMENT_CIPHER_VERSION = 'v2';
+
+export interface StoredKeyPair {
+  keyId: string;
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+const IV_LENGTH = 12; // 96 bits for GCM
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const HKDF_INFO = new TextEncoder().encode('pezkuwi-p2p-payment-v2');
+const KEYPAIR_STORAGE_PREFIX = 'p2p_keypair_';
+const ENVELOPE_SEPARATOR = '~';
+
+// Keys of devices that stopped using the app linger; only the most recently seen ones get copies
+const MAX_DEVICE_KEYS = 5;
+
+export const MISSING_DEVICE_KEY_ERROR = 'Payment details were encrypted for your other devices';
+
+export interface PublishedKey {
+  keyPair: StoredKeyPair;
+  isNewDevice: boolean; // This device's key was just added next to keys of other devices
+}
+
+export interface UserPublicKey {
+  keyId: string;
+  publicKey: JsonWebKey;
+}
+
+// =====================================================
+// ENCODING HELPERS
+// =====================================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+async function computeKeyId(publicKey: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey('raw', publicKey);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  return Array.from(digest.slice(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// =====================================================
+// KEY MANAGEMENT
+// =====================================================
+
+/**
+ * Load the user's keypair from this device, generating one on first use
+ */
+export async function getOrCreateKeyPair(userId: string): Promise<StoredKeyPair> {
+  const storageKey = KEYPAIR_STORAGE_PREFIX + userId;
+  const stored = localStorage.getItem(storageKey);
+  if (stored) {
+    return JSON.parse(stored) as StoredKeyPair;
+  }
+
+  const pair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const keyPair: StoredKeyPair = {
+    keyId: await computeKeyId(pair.publicKey),
+    publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey)
+  };
+
+  localStorage.setItem(storageKey, JSON.stringify(keyPair));
+  return keyPair;
+}
+
+/**
+ * Publish this device's public key next to the user's other device keys.
+ * Refreshes `updated_at` on every call so active devices stay among the recent keys.
+ */
+export async function publishPublicKey(userId: string): Promise<PublishedKey> {
+  const keyPair = await getOrCreateKeyPair(userId);
+
+  const { data: existing, error: keysError } = await supabase
+    .from('p2p_user_keys')
+    .select('key_id')
+    .eq('user_id', userId);
+
+  if (keysError) throw keysError;
+  const keyIds = (existing || []).map((row: { key_id: string }) => row.key_id);
+
+  const { error } = await supabase.from('p2p_user_keys').upsert({
+    user_id: userId,
+    key_id: keyPair.keyId,
+    public_key: keyPair.publicKey,
+    updated_at: new Date().toISOString()
+  }, { onConflict: 'user_id,key_id' });
+  if (error) throw error;
+
+  return { keyPair, isNewDevice: keyIds.length > 0 && !keyIds.includes(keyPair.keyId) };
+}
+
+/**
+ * Fetch a user's most recently used device keys
+ */
+export async function getUserPublicKeys(userId: string): Promise<UserPublicKey[]> {
+  const { data, error } = await supabase
+    .from('p2p_user_keys')
+    .select('key_id, public_key')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(MAX_DEVICE_KEYS);
+
+  if (error || !data?.length) {
+    throw new Error('Counterparty has not set up payment encryption yet');
+  }
+  return data.map((row: { key_id: string; public_key: JsonWebKey }) => ({ keyId: row.key_id, publicKey: row.public_key }));
+}
+
+async function deriveAesKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: HKDF_INFO },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// =====================================================
+// ENCRYPT / DECRYPT (v2)
+// =====================================================
+
+/**
+ * Encrypt a payload to a recipient's public key using an ephemeral ECDH key
+ */
+export async function encryptForPublicKey(
+  payload: Record<string, string>,
+  recipientJwk: JsonWebKey
+): Promise<string> {
+  const recipientKey = await crypto.subtle.importKey('jwk', recipientJwk, ECDH_PARAMS, true, []);
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const aesKey = await deriveAesKey(ephemeral.privateKey, recipientKey);
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    aesKey,
+    new TextEncoder().encode(JSON.stringify(payload))
+  );
+  const ephemeralRaw = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  return [
+    PAYMENT_CIPHER_VERSION,
+    await computeKeyId(recipientKey),
+    toBase64Url(ephemeralRaw),
+    toBase64Url(iv),
+    toBase64Url(new Uint8Array(ciphertext))
+  ].join('.');
+}
+
+/**
+ * Encrypt a payload to each of a user's recent device keys
+ */
+export async function encryptForUser(payload: Record<string, string>, userId: string): Promise<string> {
+  const keys = await getUserPublicKeys(userId);
+  const envelopes = await Promise.all(keys.map(key => encryptForPublicKey(payload, key.publicKey)));
+  return envelopes.join(ENVELOPE_SEPARATOR);
+}
+
+/**
+ * Key ids a stored value is readable with
+ */
+export function getRecipientKeyIds(ciphertext: string): string[] {
+  return ciphertext.split(ENVELOPE_SEPARATOR).map(envelope => envelope.split('.')[1]).filter(Boolean);
+}
+
+/**
+ * Whether a stored value has a copy for every one of the given keys
+ */
+export function coversKeys(ciphertext: string, keyIds: string[]): boolean {
+  const recipients = getRecipientKeyIds(ciphertext);
+  return keyIds.every(keyId => recipients.includes(keyId));
+}
+
+/**
+ * Whether this device's key can read a stored value
+ */
+export async function canDecryptForUser(ciphertext: string, userId: string): Promise<boolean> {
+  const keyPair = await getOrCreateKeyPair(userId);
+  return getRecipientKeyIds(ciphertext).includes(keyPair.keyId);
+}
+
+/**
+ * Check whether a stored value predates the versioned format
+ */
+export function isLegacyCiphertext(value: string): boolean {
+  return !value.startsWith(`${PAYMENT_CIPHER_VERSION}.`);
+}
+
+/**
+ * Decrypt a v2 payload with the user's private key on this device.
+ * Throws MISSING_DEVICE_KEY_ERROR when it has no copy for this device yet.
+ */
+export async function decryptForUser(ciphertext: string, userId: string): Promise<Record<string, string>> {
+  const envelopes = ciphertext.split(ENVELOPE_SEPARATOR).map(envelope => envelope.split('.'));
+  if (envelopes.some(parts => parts[0] !== PAYMENT_CIPHER_VERSION || parts.length !== 5)) {
+    throw new Error('Unsupported payment details format');
+  }
+
+  const keyPair = await getOrCreateKeyPair(userId);
+  const envelope = envelopes.find(([, keyId]) => keyId === keyPair.keyId);
+  if (!envelope) {
+    throw new Error(MISSING_DEVICE_KEY_ERROR);
+  }
+  const [, , ephemeralPart, ivPart, dataPart] = envelope;
+
+  const privateKey = await crypto.subtle.importKey('jwk', keyPair.privateKey, ECDH_PARAMS, false, ['deriveBits']);
+  const ephemeralKey = await crypto.subtle.importKey('raw', fromBase64Url(ephemeralPart), ECDH_PARAMS, false, []);
+  const aesKey = await deriveAesKey(privateKey, ephemeralKey);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(ivPart) },
+    aesKey,
+    fromBase64Url(dataPart)
+  );
+
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
+
+// =====================================================
+// LEGACY v1 (migration only)
+// =====================================================
+
+/**
+ * Decrypt a pre-v2 value (shared bundle key). Only used to migrate old offers.
+ */
+export async function decryptLegacyPayload(encrypted: string): Promise<Record<string, string>> {
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode('p2p-payment-encryption-v1-pezkuwi'),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode('pezkuwi-p2p-salt'), iterations: 100000, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const combined = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, IV_LENGTH) },
+    key,
+    combined.slice(IV_LENGTH)
+  );
+
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
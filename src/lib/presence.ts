@@ -0,0 +1,139 @@
+/**
+ * P2P Presence - Who Is Online Right Now
+ *
+ * @module presence
+ * @description Realtime presence for P2P users with persisted last-seen times
+ *
+ * Each signed-in client joins one Supabase realtime presence channel keyed by
+ * its user id, so every client knows who is currently connected. A heartbeat
+ * also writes `p2p_user_presence.last_seen_at`, which lets the offer feed filter
+ * absent merchants server-side and shows "last seen" for users who left.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const PRESENCE_CHANNEL = 'p2p-presence';
+
+// How often an active client refreshes its last-seen time
+const LAST_SEEN_HEARTBEAT_MS = 60_000;
+
+// Users seen within this window count as online where live presence is unavailable
+export const ONLINE_WINDOW_MINUTES = 3;
+
+// =====================================================
+// ONLINE USERS STORE
+// =====================================================
+
+let channel: RealtimeChannel | null = null;
+let onlineUserIds: ReadonlySet<string> = new Set();
+const listeners = new Set<() => void>();
+
+function setOnlineUsers(ids: Iterable<string>) {
+  onlineUserIds = new Set(ids);
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Users currently connected to the presence channel (stable until it changes)
+ */
+export function getOnlineUsers(): ReadonlySet<string> {
+  return onlineUserIds;
+}
+
+/**
+ * Get notified whenever the set of online users changes
+ */
+export function subscribeOnlineUsers(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// =====================================================
+// TRACKING
+// =====================================================
+
+async function recordLastSeen(userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('p2p_user_presence')
+      .upsert({ user_id: userId, last_seen_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Record last seen error:', error);
+  }
+}
+
+/**
+ * Announce the current user as online until the returned cleanup runs
+ */
+export function startPresence(userId: string): () => void {
+  if (channel) supabase.removeChannel(channel);
+
+  const presenceChannel = supabase.channel(PRESENCE_CHANNEL, {
+    config: { presence: { key: userId } }
+  });
+  channel = presenceChannel;
+
+  presenceChannel
+    .on('presence', { event: 'sync' }, () => {
+      setOnlineUsers(Object.keys(presenceChannel.presenceState()));
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await presenceChannel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+  recordLastSeen(userId);
+  const heartbeat = setInterval(() => recordLastSeen(userId), LAST_SEEN_HEARTBEAT_MS);
+
+  return () => {
+    clearInterval(heartbeat);
+    recordLastSeen(userId);
+    supabase.removeChannel(presenceChannel);
+    if (channel === presenceChannel) {
+      channel = null;
+      setOnlineUsers([]);
+    }
+  };
+}
+
+// =====================================================
+// LAST SEEN
+// =====================================================
+
+/**
+ * Last-seen times for the given users, keyed by user id
+ */
+export async function getLastSeen(userIds: string[]): Promise<Record<string, string>> {
+  if (userIds.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase
+      .from('p2p_user_presence')
+      .select('user_id, last_seen_at')
+      .in('user_id', userIds);
+
+    if (error) throw error;
+    return Object.fromEntries((data || []).map(row => [row.user_id, row.last_seen_at]));
+  } catch (error) {
+    console.error('Get last seen error:', error);
+    return {};
+  }
+}
+
+/**
+ * Whether a last-seen time falls inside the online window
+ */
+export function isRecentlySeen(lastSeenAt: string | null | undefined, now: number = Date.now()): boolean {
+  if (!lastSeenAt) return false;
+  return now - new Date(lastSeenAt).getTime() <= ONLINE_WINDOW_MINUTES * 60_000;
+}
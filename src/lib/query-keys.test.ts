@@ -0,0 +1,21 @@
+import { expect, test, describe } from 'vitest';
+import { invalidationsForTradeUpdate, p2pKeys } from './query-keys';
+import type { TradeRow } from './trade-updates';
+
+const row = (status: TradeRow['status']) => ({ id: 't1', status }) as TradeRow;
+
+describe('p2p query keys', () => {
+  test('should nest keys under their family', () => {
+    expect(p2pKeys.trade('t1').slice(0, 2)).toEqual(p2pKeys.trades());
+    expect(p2pKeys.myOffers().slice(0, 2)).toEqual(p2pKeys.offers());
+    expect(p2pKeys.paymentMethodsByIds(['b', 'a'])).toEqual(p2pKeys.paymentMethodsByIds(['a', 'b']));
+  });
+
+  test('should invalidate balances and offers only when escrow moved', () => {
+    expect(invalidationsForTradeUpdate({ type: 'change', trade: row('payment_sent') })).toEqual([p2pKeys.trades()]);
+    expect(invalidationsForTradeUpdate({ type: 'change', trade: row('completed') }))
+      .toEqual([p2pKeys.trades(), p2pKeys.balances(), p2pKeys.offers()]);
+    expect(invalidationsForTradeUpdate({ type: 'refresh' }))
+      .toEqual([p2pKeys.trades(), p2pKeys.balances(), p2pKeys.offers()]);
+  });
+});
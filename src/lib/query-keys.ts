@@ -0,0 +1,74 @@
+/**
+ * P2P Query Keys - React Query Cache Layout
+ *
+ * @module query-keys
+ * @description Query keys for every cached P2P resource and what realtime events invalidate
+ *
+ * Keys are nested so a prefix invalidates a whole family: `p2pKeys.trades()`
+ * covers the trade lists, every trade detail and the trade stats. Query hooks,
+ * mutations and the realtime layer all build keys here and nowhere else.
+ */
+
+import type { CryptoToken, FiatCurrency, TradeStatus } from '@/lib/p2p-fiat';
+import type { OfferFeedQuery } from '@/lib/offer-feed';
+import type { TradeUpdate } from '@/lib/trade-updates';
+
+// =====================================================
+// KEYS
+// =====================================================
+
+export const p2pKeys = {
+  all: ['p2p'] as const,
+
+  offers: () => [...p2pKeys.all, 'offers'] as const,
+  offerFeed: (query: OfferFeedQuery) => [...p2pKeys.offers(), 'feed', query] as const,
+  offer: (offerId: string) => [...p2pKeys.offers(), 'detail', offerId] as const,
+  myOffers: () => [...p2pKeys.offers(), 'mine'] as const,
+  myOfferFeed: () => [...p2pKeys.myOffers(), 'feed'] as const, // Own offers shaped like the feed
+
+  trades: () => [...p2pKeys.all, 'trades'] as const,
+  tradeLists: () => [...p2pKeys.trades(), 'list'] as const,
+  userTrades: (userId: string) => [...p2pKeys.tradeLists(), userId] as const,
+  trade: (tradeId: string) => [...p2pKeys.trades(), 'detail', tradeId] as const,
+  tradeStats: (userId: string) => [...p2pKeys.trades(), 'stats', userId] as const,
+  tradeRated: (tradeId: string, userId: string) => [...p2pKeys.trades(), 'rated', tradeId, userId] as const,
+
+  balances: () => [...p2pKeys.all, 'balances'] as const,
+  balance: (token: CryptoToken) => [...p2pKeys.balances(), token] as const,
+
+  notifications: (userId: string) => [...p2pKeys.all, 'notifications', userId] as const,
+
+  reputation: (userId: string) => [...p2pKeys.all, 'reputation', userId] as const,
+  counterparty: (userId: string) => [...p2pKeys.all, 'counterparty', userId] as const,
+
+  paymentMethods: () => [...p2pKeys.all, 'payment-methods'] as const,
+  currencyPaymentMethods: (currency: FiatCurrency | 'all') => [...p2pKeys.paymentMethods(), 'currency', currency] as const,
+  paymentMethodsByIds: (ids: string[]) => [...p2pKeys.paymentMethods(), 'ids', [...ids].sort()] as const
+};
+
+export type P2PQueryKey = readonly unknown[];
+
+// =====================================================
+// REALTIME INVALIDATION
+// =====================================================
+
+// Statuses whose transition moved escrow (locked, released or refunded)
+const ESCROW_STATUSES: TradeStatus[] = ['pending', 'completed', 'cancelled', 'refunded'];
+
+/**
+ * Query families a realtime trade event makes stale.
+ * A changed trade lands in the detail cache directly (see the realtime hook);
+ * lists, stats and counts are refetched. Balances and offer amounts only move
+ * when escrow does, so status changes that don't touch it leave them cached.
+ */
+export function invalidationsForTradeUpdate(update: TradeUpdate): P2PQueryKey[] {
+  if (update.type === 'refresh') {
+    return [p2pKeys.trades(), p2pKeys.balances(), p2pKeys.offers()];
+  }
+
+  const keys: P2PQueryKey[] = [p2pKeys.trades()];
+  if (ESCROW_STATUSES.includes(update.trade.status)) {
+    keys.push(p2pKeys.balances(), p2pKeys.offers());
+  }
+  return keys;
+}
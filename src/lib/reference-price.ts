@@ -0,0 +1,116 @@
+/**
+ * Reference Prices - Market Rate per Token/Fiat Pair
+ *
+ * @module reference-price
+ * @description Reference rate used to peg floating offers
+ *
+ * Sources, in order:
+ * 1. A configured index in p2p_config (key `reference_price_<TOKEN>_<FIAT>`)
+ * 2. The volume-weighted median price of recent completed trades
+ *
+ * Also provides the deviation threshold above which the UI warns about a price.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_PRICE_DEVIATION_WARNING_PERCENT, pairKey, weightedMedian } from '@/lib/p2p-pricing';
+import type { CryptoToken, FiatCurrency } from '@/lib/p2p-fiat';
+
+// =====================================================
+// TYPES & CONSTANTS
+// =====================================================
+
+export type ReferencePriceSource = 'index' | 'trades';
+
+export interface ReferencePrice {
+  token: CryptoToken;
+  fiat: FiatCurrency;
+  price: number;
+  source: ReferencePriceSource;
+  sampleSize: number; // Trades used; 0 for a configured index
+}
+
+// Completed trades older than this don't count towards the reference price
+const REFERENCE_TRADE_WINDOW_HOURS = 72;
+const REFERENCE_TRADE_SAMPLE_LIMIT = 100;
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+/**
+ * Reference price for a pair, or null when there is no index and no recent trades
+ */
+export async function getReferencePrice(token: CryptoToken, fiat: FiatCurrency): Promise<ReferencePrice | null> {
+  try {
+    const { data: config } = await supabase
+      .from('p2p_config')
+      .select('value')
+      .eq('key', `reference_price_${token}_${fiat}`)
+      .maybeSingle();
+
+    const indexPrice = parseFloat(config?.value);
+    if (indexPrice > 0) {
+      return { token, fiat, price: indexPrice, source: 'index', sampleSize: 0 };
+    }
+
+    const since = new Date(Date.now() - REFERENCE_TRADE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    const { data: trades, error } = await supabase
+      .from('p2p_fiat_trades')
+      .select('price_per_unit, crypto_amount, p2p_fiat_offers!inner(token, fiat_currency)')
+      .eq('status', 'completed')
+      .eq('p2p_fiat_offers.token', token)
+      .eq('p2p_fiat_offers.fiat_currency', fiat)
+      .gte('completed_at', since)
+      .order('completed_at', { ascending: false })
+      .limit(REFERENCE_TRADE_SAMPLE_LIMIT);
+
+    if (error) throw error;
+
+    const samples = (trades || []).map(t => ({
+      price: Number(t.price_per_unit),
+      volume: Number(t.crypto_amount)
+    }));
+    const price = weightedMedian(samples);
+    if (price === null) return null;
+
+    return { token, fiat, price, source: 'trades', sampleSize: samples.length };
+  } catch (error) {
+    console.error('Get reference price error:', error);
+    return null;
+  }
+}
+
+/**
+ * Reference prices for several pairs, keyed by pairKey()
+ */
+export async function getReferencePrices(
+  pairs: { token: CryptoToken; fiat: FiatCurrency }[]
+): Promise<Record<string, ReferencePrice>> {
+  const results = await Promise.all(pairs.map(({ token, fiat }) => getReferencePrice(token, fiat)));
+
+  const prices: Record<string, ReferencePrice> = {};
+  for (const result of results) {
+    if (result) prices[pairKey(result.token, result.fiat)] = result;
+  }
+  return prices;
+}
+
+/**
+ * Percentage away from the reference price above which a price is flagged
+ */
+export async function getPriceDeviationThreshold(): Promise<number> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_config')
+      .select('value')
+      .eq('key', 'price_deviation_warning_percent')
+      .maybeSingle();
+
+    if (error) throw error;
+    const threshold = parseFloat(data?.value);
+    return threshold > 0 ? threshold : DEFAULT_PRICE_DEVIATION_WARNING_PERCENT;
+  } catch (error) {
+    console.error('Get price deviation threshold error:', error);
+    return DEFAULT_PRICE_DEVIATION_WARNING_PERCENT;
+  }
+}
@@ -0,0 +1,88 @@
+import { expect, test, describe } from 'vitest';
+import {
+  buildPath,
+  buildStartParam,
+  parentRoute,
+  parseRoute,
+  parseStartParam,
+  routeForReference,
+  type Route
+} from './routes';
+
+const ROUTES: Route[] = [
+  { name: 'dashboard', tab: 'buy' },
+  { name: 'dashboard', tab: 'otc' },
+  { name: 'ad', offerId: 'o-1' },
+  { name: 'trade', tradeId: '3f2a9c1e-0000-4000-8000-000000000001' },
+  { name: 'my-trades' },
+  { name: 'my-ads' },
+  { name: 'create-ad' },
+  { name: 'merchant' },
+  { name: 'profile' }
+];
+
+describe('routes', () => {
+  test('should round-trip every route under the base', () => {
+    for (const route of ROUTES) {
+      const path = buildPath(route, '/p2p/');
+      expect(path.startsWith('/p2p/')).toBe(true);
+      expect(parseRoute(path, '/p2p/')).toEqual(route);
+    }
+  });
+
+  test('should open the default tab at the base with or without a trailing slash', () => {
+    expect(buildPath({ name: 'dashboard', tab: 'buy' }, '/p2p/')).toBe('/p2p/');
+    expect(parseRoute('/p2p', '/p2p/')).toEqual({ name: 'dashboard', tab: 'buy' });
+    expect(parseRoute('/p2p/sell/', '/p2p/')).toEqual({ name: 'dashboard', tab: 'sell' });
+  });
+
+  test('should not match paths outside the base or unknown screens', () => {
+    expect(parseRoute('/trades', '/p2p/')).toBeNull();
+    expect(parseRoute('/p2p/settings', '/p2p/')).toBeNull();
+    expect(parseRoute('/p2p/trades/t1/chat', '/p2p/')).toBeNull();
+  });
+
+  test('should not match paths with malformed escapes', () => {
+    expect(parseRoute('/p2p/trades/%E0', '/p2p/')).toBeNull();
+    expect(parseRoute('/p2p/ads/%', '/p2p/')).toBeNull();
+    expect(parseRoute('/p2p/trades/a%20b', '/p2p/')).toEqual({ name: 'trade', tradeId: 'a b' });
+  });
+
+  test('should fall back to the parent screen', () => {
+    expect(parentRoute({ name: 'trade', tradeId: 't1' })).toEqual({ name: 'my-trades' });
+    expect(parentRoute({ name: 'create-ad' })).toEqual({ name: 'my-ads' });
+    expect(parentRoute({ name: 'profile' })).toEqual({ name: 'dashboard', tab: 'buy' });
+    expect(parentRoute({ name: 'dashboard', tab: 'sell' })).toBeNull();
+  });
+
+  test('should link notification references to their screen', () => {
+    expect(routeForReference('trade', 't1')).toEqual({ name: 'trade', tradeId: 't1' });
+    expect(routeForReference('offer', 'o1')).toEqual({ name: 'ad', offerId: 'o1' });
+    expect(routeForReference('dispute', 'd1')).toBeNull();
+    expect(routeForReference('trade', undefined)).toBeNull();
+  });
+});
+
+describe('telegram start_param', () => {
+  test('should round-trip every route', () => {
+    for (const route of ROUTES) {
+      const startParam = buildStartParam(route);
+      expect(startParam).toMatch(/^[A-Za-z0-9_-]*$/);
+      expect(parseStartParam(startParam)).toEqual(route);
+    }
+  });
+
+  test('should read trade and ad links', () => {
+    expect(parseStartParam('trade_abc-123')).toEqual({ name: 'trade', tradeId: 'abc-123' });
+    expect(parseStartParam('ad_o1')).toEqual({ name: 'ad', offerId: 'o1' });
+    expect(parseStartParam('my-trades')).toEqual({ name: 'my-trades' });
+    expect(parseStartParam('express')).toEqual({ name: 'dashboard', tab: 'express' });
+  });
+
+  test('should ignore empty and unknown values', () => {
+    expect(parseStartParam(undefined)).toBeNull();
+    expect(parseStartParam('trade_')).toBeNull();
+    expect(parseStartParam('ref123')).toBeNull();
+    expect(parseStartParam('toString')).toBeNull();
+  });
+});
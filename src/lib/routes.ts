@@ -0,0 +1,279 @@
+/**
+ * P2P Routes - URL Navigation
+ *
+ * @module routes
+ * @description Maps app screens to URL paths under the Vite base and keeps the current route
+ *
+ * Every screen has a path below `import.meta.env.BASE_URL` (`/p2p/`), so trades,
+ * ads and lists can be linked, reloaded and reached with the back button.
+ * Navigation only changes the path; the query string (ad list filters, see
+ * filter-params) is carried along. Telegram opens the app at the base URL and
+ * passes deep links as `start_param` instead, e.g. `trade_<id>` or `my-trades`.
+ */
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type DashboardTab = 'express' | 'buy' | 'sell' | 'otc';
+
+export type Route =
+  | { name: 'dashboard'; tab: DashboardTab }
+  | { name: 'ad'; offerId: string }
+  | { name: 'trade'; tradeId: string }
+  | { name: 'my-trades' }
+  | { name: 'my-ads' }
+  | { name: 'create-ad' }
+  | { name: 'merchant' }
+  | { name: 'profile' };
+
+export interface NavigateOptions {
+  replace?: boolean; // Replace the current history entry instead of adding one
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const DASHBOARD_TABS: DashboardTab[] = ['express', 'buy', 'sell', 'otc'];
+
+export const DEFAULT_TAB: DashboardTab = 'buy';
+
+export const DEFAULT_ROUTE: Route = { name: 'dashboard', tab: DEFAULT_TAB };
+
+// Paths of the screens without an id
+const STATIC_PATHS = {
+  'my-trades': 'trades',
+  'my-ads': 'my-ads',
+  'create-ad': 'my-ads/new',
+  merchant: 'merchant',
+  profile: 'profile'
+} as const satisfies Record<string, string>;
+
+type StaticRouteName = keyof typeof STATIC_PATHS;
+
+// Telegram start_param allows only A-Z, a-z, 0-9, _ and -
+const START_PARAM_PREFIX = { trade: 'trade_', ad: 'ad_' } as const;
+
+const START_PARAM_STORAGE_KEY = 'p2p_start_param_applied';
+
+// =====================================================
+// PATHS
+// =====================================================
+
+function normalizeBase(base: string): string {
+  return base.endsWith('/') ? base : `${base}/`;
+}
+
+/**
+ * Route for a pathname, or null when nothing matches
+ */
+export function parseRoute(pathname: string, base: string = import.meta.env.BASE_URL): Route | null {
+  const root = normalizeBase(base);
+  // The base without its trailing slash (`/p2p`) is the dashboard too
+  if (`${pathname}/` === root) return DEFAULT_ROUTE;
+  if (!pathname.startsWith(root)) return null;
+
+  let segments: string[];
+  try {
+    segments = pathname.slice(root.length).split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null; // Malformed escape, e.g. `%E0`
+  }
+  if (segments.length === 0) return DEFAULT_ROUTE;
+
+  const [first, second] = segments;
+  if (segments.length === 1 && (DASHBOARD_TABS as string[]).includes(first)) {
+    return { name: 'dashboard', tab: first as DashboardTab };
+  }
+  if (segments.length === 2 && first === 'ads') return { name: 'ad', offerId: second };
+  if (segments.length === 2 && first === 'trades') return { name: 'trade', tradeId: second };
+
+  const path = segments.join('/');
+  const name = (Object.keys(STATIC_PATHS) as StaticRouteName[]).find(key => STATIC_PATHS[key] === path);
+  return name ? { name } : null;
+}
+
+/**
+ * Pathname of a route, including the base
+ */
+export function buildPath(route: Route, base: string = import.meta.env.BASE_URL): string {
+  const root = normalizeBase(base);
+  switch (route.name) {
+    case 'dashboard':
+      return route.tab === DEFAULT_TAB ? root : `${root}${route.tab}`;
+    case 'ad':
+      return `${root}ads/${encodeURIComponent(route.offerId)}`;
+    case 'trade':
+      return `${root}trades/${encodeURIComponent(route.tradeId)}`;
+    default:
+      return `${root}${STATIC_PATHS[route.name]}`;
+  }
+}
+
+/**
+ * Where "back" leads when there is no earlier in-app page, e.g. after opening a deep link
+ */
+export function parentRoute(route: Route): Route | null {
+  switch (route.name) {
+    case 'dashboard':
+      return null;
+    case 'trade':
+      return { name: 'my-trades' };
+    case 'create-ad':
+      return { name: 'my-ads' };
+    default:
+      return DEFAULT_ROUTE;
+  }
+}
+
+export function isSameRoute(a: Route, b: Route): boolean {
+  return buildPath(a, '/') === buildPath(b, '/');
+}
+
+// =====================================================
+// TELEGRAM DEEP LINKS
+// =====================================================
+
+/**
+ * Route for a Telegram `start_param`: `trade_<id>`, `ad_<id>`, a dashboard tab
+ * (`sell`) or a screen name (`my-trades`, `my-ads`, `create-ad`, `merchant`, `profile`)
+ */
+export function parseStartParam(startParam: string | null | undefined): Route | null {
+  const value = startParam?.trim();
+  if (!value) return null;
+
+  if (value.startsWith(START_PARAM_PREFIX.trade)) {
+    const tradeId = value.slice(START_PARAM_PREFIX.trade.length);
+    return tradeId ? { name: 'trade', tradeId } : null;
+  }
+  if (value.startsWith(START_PARAM_PREFIX.ad)) {
+    const offerId = value.slice(START_PARAM_PREFIX.ad.length);
+    return offerId ? { name: 'ad', offerId } : null;
+  }
+  if ((DASHBOARD_TABS as string[]).includes(value)) return { name: 'dashboard', tab: value as DashboardTab };
+  return Object.hasOwn(STATIC_PATHS, value) ? { name: value as StaticRouteName } : null;
+}
+
+/**
+ * The `start_param` that opens a route, for sharing links to the Mini App
+ */
+export function buildStartParam(route: Route): string {
+  switch (route.name) {
+    case 'trade':
+      return `${START_PARAM_PREFIX.trade}${route.tradeId}`;
+    case 'ad':
+      return `${START_PARAM_PREFIX.ad}${route.offerId}`;
+    case 'dashboard':
+      return route.tab;
+    default:
+      return route.name;
+  }
+}
+
+/**
+ * Screen for a record a notification points at (`reference_type` / `reference_id`);
+ * null for records without a screen of their own, e.g. disputes
+ */
+export function routeForReference(referenceType: string | null | undefined, referenceId: string | null | undefined): Route | null {
+  if (!referenceId) return null;
+  switch (referenceType) {
+    case 'trade':
+      return { name: 'trade', tradeId: referenceId };
+    case 'offer':
+      return { name: 'ad', offerId: referenceId };
+    default:
+      return null;
+  }
+}
+
+// =====================================================
+// CURRENT ROUTE
+// =====================================================
+
+let current: Route | null = null;
+// Pages this tab has pushed; history.back() would leave the app below this
+let depth = 0;
+const listeners = new Set<() => void>();
+
+function setCurrent(next: Route) {
+  current = next;
+  listeners.forEach(listener => listener());
+}
+
+function historyDepth(state: unknown): number {
+  const value = (state as { p2pDepth?: unknown } | null)?.p2pDepth;
+  return typeof value === 'number' ? value : 0;
+}
+
+function writeHistory(route: Route, replace: boolean) {
+  const { search, hash } = window.location;
+  const state = { ...(replace ? window.history.state : null), p2pDepth: depth };
+  const url = `${buildPath(route)}${search}${hash}`;
+  if (replace) {
+    window.history.replaceState(state, '', url);
+  } else {
+    window.history.pushState(state, '', url);
+  }
+}
+
+/**
+ * Read the route from the URL, or from the Telegram start_param on the first
+ * visit of the session, and follow browser back and forward from then on
+ */
+function initRoute(): Route {
+  depth = historyDepth(window.history.state);
+  let route = parseRoute(window.location.pathname) ?? DEFAULT_ROUTE;
+
+  const startParam = window.Telegram?.WebApp.initDataUnsafe.start_param;
+  // Telegram keeps the start_param for the whole session; a reload must not jump back to it
+  if (startParam && sessionStorage.getItem(START_PARAM_STORAGE_KEY) !== startParam) {
+    sessionStorage.setItem(START_PARAM_STORAGE_KEY, startParam);
+    route = parseStartParam(startParam) ?? route;
+  }
+
+  writeHistory(route, true);
+  window.addEventListener('popstate', (event) => {
+    depth = historyDepth(event.state);
+    setCurrent(parseRoute(window.location.pathname) ?? DEFAULT_ROUTE);
+  });
+  return route;
+}
+
+export function getRoute(): Route {
+  if (!current) current = initRoute();
+  return current;
+}
+
+export function subscribeRoute(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function navigate(route: Route, options: NavigateOptions = {}): void {
+  const replace = options.replace || isSameRoute(getRoute(), route);
+  if (!replace) depth += 1;
+  writeHistory(route, replace);
+  setCurrent(route);
+}
+
+/**
+ * Whether the current screen has a back action; the dashboard is the top level
+ */
+export function canGoBack(): boolean {
+  return parentRoute(getRoute()) !== null;
+}
+
+/**
+ * Go to the previous page, or up to the parent screen when the app was opened on this one
+ */
+export function goBack(): void {
+  if (depth > 0) {
+    window.history.back();
+    return;
+  }
+  const parent = parentRoute(getRoute());
+  if (parent) navigate(parent, { replace: true });
+}
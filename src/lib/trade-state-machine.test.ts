@@ -0,0 +1,72 @@
+import { expect, test, describe } from 'vitest';
+import {
+  assertTransition,
+  canRateTrade,
+  canTransition,
+  getAvailableActions,
+  getCounterpartyId,
+  getTradeRole,
+  isPaymentOverdue,
+  isTerminalStatus
+} from './trade-state-machine';
+
+describe('trade state machine', () => {
+  test('should resolve participant roles', () => {
+    const trade = { buyer_id: 'b', seller_id: 's' };
+    expect(getTradeRole(trade, 'b')).toBe('buyer');
+    expect(getTradeRole(trade, 's')).toBe('seller');
+    expect(getTradeRole(trade, 'x')).toBeNull();
+    expect(getTradeRole(trade, undefined)).toBeNull();
+  });
+
+  test('should resolve the counterparty of each participant', () => {
+    const trade = { buyer_id: 'b', seller_id: 's' };
+    expect(getCounterpartyId(trade, 'buyer')).toBe('s');
+    expect(getCounterpartyId(trade, 'seller')).toBe('b');
+    expect(getCounterpartyId(trade, null)).toBeNull();
+  });
+
+  test('should only let the buyer mark a pending trade as paid', () => {
+    expect(canTransition('pending', 'mark_paid', 'buyer')).toBe(true);
+    expect(canTransition('pending', 'mark_paid', 'seller')).toBe(false);
+    expect(canTransition('completed', 'mark_paid', 'buyer')).toBe(false);
+    expect(canTransition('cancelled', 'mark_paid', 'buyer')).toBe(false);
+  });
+
+  test('should list available actions per role and status', () => {
+    expect(getAvailableActions('pending', 'buyer')).toEqual(['mark_paid', 'cancel']);
+    expect(getAvailableActions('payment_sent', 'seller')).toEqual(['confirm_payment', 'open_dispute']);
+    expect(getAvailableActions('disputed', 'arbitrator')).toEqual(['resolve_release', 'resolve_refund']);
+    expect(getAvailableActions('completed', 'buyer')).toEqual([]);
+    expect(getAvailableActions('pending', null)).toEqual([]);
+  });
+
+  test('should throw on illegal transitions', () => {
+    expect(() => assertTransition('payment_sent', 'cancel', 'buyer')).toThrow();
+    expect(() => assertTransition('payment_sent', 'confirm_payment', 'buyer')).toThrow();
+    expect(() => assertTransition('pending', 'mark_paid', null)).toThrow();
+    expect(assertTransition('pending', 'expire', 'system').to).toBe('cancelled');
+  });
+
+  test('should flag terminal statuses', () => {
+    expect(isTerminalStatus('completed')).toBe(true);
+    expect(isTerminalStatus('refunded')).toBe(true);
+    expect(isTerminalStatus('disputed')).toBe(false);
+  });
+
+  test('should detect overdue pending trades only', () => {
+    const deadline = '2026-01-01T00:00:00.000Z';
+    const after = new Date(deadline).getTime() + 1;
+    expect(isPaymentOverdue({ status: 'pending', payment_deadline: deadline }, after)).toBe(true);
+    expect(isPaymentOverdue({ status: 'pending', payment_deadline: deadline }, after - 1000)).toBe(false);
+    expect(isPaymentOverdue({ status: 'payment_sent', payment_deadline: deadline }, after)).toBe(false);
+  });
+
+  test('should only let participants rate completed trades', () => {
+    expect(canRateTrade('completed', 'buyer')).toBe(true);
+    expect(canRateTrade('completed', 'seller')).toBe(true);
+    expect(canRateTrade('completed', 'arbitrator')).toBe(false);
+    expect(canRateTrade('payment_sent', 'buyer')).toBe(false);
+    expect(canRateTrade('cancelled', 'seller')).toBe(false);
+  });
+});
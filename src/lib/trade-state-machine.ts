@@ -0,0 +1,219 @@
+/**
+ * P2P Trade State Machine
+ *
+ * @module trade-state-machine
+ * @description Single source of truth for the P2P trade lifecycle
+ *
+ * Every legal TradeStatus transition is declared here together with:
+ * - the role allowed to trigger it (buyer, seller, arbitrator, system)
+ * - the side effects the ledger layer must run when it happens
+ *
+ * Lifecycle functions in p2p-fiat and the action buttons in TradeDetail
+ * both derive from this table instead of doing their own status checks.
+ */
+
+import type { P2PFiatTrade, TradeStatus } from '@/lib/p2p-fiat';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type TradeRole = 'buyer' | 'seller' | 'arbitrator' | 'system';
+
+export type TradeAction =
+  | 'mark_paid'         // Buyer reports the fiat payment as sent
+  | 'confirm_payment'   // Seller confirms fiat received, escrow released
+  | 'cancel'            // Buyer backs out before paying
+  | 'open_dispute'      // Either party escalates after payment was marked
+  | 'resolve_release'   // Arbitrator rules for the buyer
+  | 'resolve_refund'    // Arbitrator rules for the seller
+  | 'expire';           // Payment deadline passed without payment
+
+export type TradeSideEffect =
+  | 'set_confirmation_deadline'
+  | 'release_escrow'
+  | 'restore_offer'
+  | 'refund_escrow'
+  | 'update_reputation'
+  | 'notify_counterparty';
+
+export interface TradeTransition {
+  action: TradeAction;
+  from: TradeStatus[];
+  to: TradeStatus;
+  roles: TradeRole[];
+  effects: TradeSideEffect[];
+  label: string;
+}
+
+// =====================================================
+// TRANSITION TABLE
+// =====================================================
+
+export const TRADE_TRANSITIONS: Record<TradeAction, TradeTransition> = {
+  mark_paid: {
+    action: 'mark_paid',
+    from: ['pending'],
+    to: 'payment_sent',
+    roles: ['buyer'],
+    effects: ['set_confirmation_deadline', 'notify_counterparty'],
+    label: 'I Have Paid'
+  },
+  confirm_payment: {
+    action: 'confirm_payment',
+    from: ['payment_sent'],
+    to: 'completed',
+    roles: ['seller'],
+    effects: ['release_escrow', 'update_reputation', 'notify_counterparty'],
+    label: 'Confirm Payment Received'
+  },
+  cancel: {
+    action: 'cancel',
+    from: ['pending'],
+    to: 'cancelled',
+    roles: ['buyer'],
+    effects: ['refund_escrow', 'restore_offer', 'notify_counterparty'],
+    label: 'Cancel'
+  },
+  open_dispute: {
+    action: 'open_dispute',
+    from: ['payment_sent'],
+    to: 'disputed',
+    roles: ['buyer', 'seller'],
+    effects: ['notify_counterparty'],
+    label: 'Open Dispute'
+  },
+  resolve_release: {
+    action: 'resolve_release',
+    from: ['disputed'],
+    to: 'completed',
+    roles: ['arbitrator'],
+    effects: ['release_escrow', 'update_reputation', 'notify_counterparty'],
+    label: 'Release to Buyer'
+  },
+  resolve_refund: {
+    action: 'resolve_refund',
+    from: ['disputed'],
+    to: 'refunded',
+    roles: ['arbitrator'],
+    effects: ['refund_escrow', 'notify_counterparty'],
+    label: 'Refund Seller'
+  },
+  expire: {
+    action: 'expire',
+    from: ['pending'],
+    to: 'cancelled',
+    roles: ['system'],
+    effects: ['refund_escrow', 'restore_offer', 'notify_counterparty'],
+    label: 'Expire'
+  }
+};
+
+export const TERMINAL_TRADE_STATUSES: TradeStatus[] = ['completed', 'cancelled', 'refunded'];
+
+// Seller payment details are only revealed to the buyer while payment is due or being confirmed
+export const PAYMENT_DETAILS_VISIBLE_STATUSES: TradeStatus[] = ['pending', 'payment_sent'];
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+/**
+ * Resolve the caller's role in a trade (null if not a participant)
+ */
+export function getTradeRole(
+  trade: Pick<P2PFiatTrade, 'buyer_id' | 'seller_id'>,
+  userId: string | null | undefined
+): TradeRole | null {
+  if (!userId) return null;
+  if (trade.buyer_id === userId) return 'buyer';
+  if (trade.seller_id === userId) return 'seller';
+  return null;
+}
+
+/**
+ * The other participant's user id (null if the caller isn't a participant)
+ */
+export function getCounterpartyId(
+  trade: Pick<P2PFiatTrade, 'buyer_id' | 'seller_id'>,
+  role: TradeRole | null
+): string | null {
+  if (role === 'buyer') return trade.seller_id;
+  if (role === 'seller') return trade.buyer_id;
+  return null;
+}
+
+export function isTerminalStatus(status: TradeStatus): boolean {
+  return TERMINAL_TRADE_STATUSES.includes(status);
+}
+
+/**
+ * Check whether a pending trade has run past its payment deadline.
+ * The deadline is set at acceptance and restarted when the seller shares the payment
+ * details, so a trade whose details never arrive expires at the acceptance deadline.
+ */
+export function isPaymentOverdue(
+  trade: Pick<P2PFiatTrade, 'status' | 'payment_deadline'>,
+  now: number = Date.now()
+): boolean {
+  if (trade.status !== 'pending' || !trade.payment_deadline) return false;
+  return new Date(trade.payment_deadline).getTime() <= now;
+}
+
+/**
+ * Check whether a role may see the seller's payment details
+ */
+export function canViewPaymentDetails(status: TradeStatus, role: TradeRole | null): boolean {
+  return role === 'buyer' && PAYMENT_DETAILS_VISIBLE_STATUSES.includes(status);
+}
+
+/**
+ * Check whether a role may rate the counterparty; only completed trades are rated
+ */
+export function canRateTrade(status: TradeStatus, role: TradeRole | null): boolean {
+  return (role === 'buyer' || role === 'seller') && status === 'completed';
+}
+
+/**
+ * Check whether a role may run an action from the given status
+ */
+export function canTransition(
+  status: TradeStatus,
+  action: TradeAction,
+  role: TradeRole | null
+): boolean {
+  const transition = TRADE_TRANSITIONS[action];
+  return !!role && transition.from.includes(status) && transition.roles.includes(role);
+}
+
+/**
+ * Actions a role can currently take on a trade, in declaration order
+ */
+export function getAvailableActions(status: TradeStatus, role: TradeRole | null): TradeAction[] {
+  return (Object.keys(TRADE_TRANSITIONS) as TradeAction[]).filter(action =>
+    canTransition(status, action, role)
+  );
+}
+
+/**
+ * Return the transition for an action or throw a user-facing error
+ */
+export function assertTransition(
+  status: TradeStatus,
+  action: TradeAction,
+  role: TradeRole | null
+): TradeTransition {
+  const transition = TRADE_TRANSITIONS[action];
+
+  if (!role) {
+    throw new Error('You are not a participant in this trade');
+  }
+  if (!transition.roles.includes(role)) {
+    throw new Error(`Only the ${transition.roles.join(' or ')} can do this`);
+  }
+  if (!transition.from.includes(status)) {
+    throw new Error(`Trade cannot be updated while ${status.replace('_', ' ')}`);
+  }
+
+  return transition;
+}
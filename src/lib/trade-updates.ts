@@ -0,0 +1,165 @@
+/**
+ * P2P Trade Updates - Live Trade Status for Participants
+ *
+ * @module trade-updates
+ * @description Realtime changes to the signed-in user's trades, with a polling fallback
+ *
+ * One Supabase realtime channel per signed-in client listens to
+ * `p2p_fiat_trades` rows where the user is the buyer or the seller and pushes
+ * every insert and update to the listeners here; use-realtime-invalidation
+ * turns them into query cache updates for the trade view, list and badge.
+ * While the channel is down, listeners are asked to refetch on an interval
+ * instead; when it comes back they refetch once more to catch up on anything
+ * missed.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { P2PFiatTrade } from '@/lib/p2p-fiat';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type TradeFeedStatus = 'connecting' | 'live' | 'polling';
+
+// Realtime rows are the bare table row, without the offer fields the trade queries add
+export type TradeRow = Omit<P2PFiatTrade, 'token' | 'fiat_currency'>;
+
+export type TradeUpdate =
+  | { type: 'change'; trade: TradeRow }
+  | { type: 'refresh' }; // Refetch: changes may have been missed
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+// How often listeners refetch while the realtime channel is down
+export const TRADE_POLL_INTERVAL_MS = 10_000;
+
+// =====================================================
+// FEED STORE
+// =====================================================
+
+let channel: RealtimeChannel | null = null;
+let status: TradeFeedStatus = 'connecting';
+const updateListeners = new Set<(update: TradeUpdate) => void>();
+const statusListeners = new Set<() => void>();
+
+function emit(update: TradeUpdate) {
+  updateListeners.forEach(listener => listener(update));
+}
+
+/**
+ * Whether a realtime payload is a trade row that can be merged (has its id, parties and status)
+ */
+function isTradeRow(row: Record<string, unknown>): row is TradeRow {
+  return typeof row.id === 'string'
+    && typeof row.buyer_id === 'string'
+    && typeof row.seller_id === 'string'
+    && typeof row.status === 'string';
+}
+
+function setStatus(next: TradeFeedStatus) {
+  if (next === status) return;
+  status = next;
+  statusListeners.forEach(listener => listener());
+}
+
+/**
+ * Get every change to the user's trades, and refresh requests while polling
+ */
+export function subscribeTradeUpdates(listener: (update: TradeUpdate) => void): () => void {
+  updateListeners.add(listener);
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+export function getTradeFeedStatus(): TradeFeedStatus {
+  return status;
+}
+
+export function subscribeTradeFeedStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+// =====================================================
+// CONNECTION
+// =====================================================
+
+/**
+ * Listen to the user's trades until the returned cleanup runs
+ */
+export function startTradeUpdates(userId: string): () => void {
+  if (channel) supabase.removeChannel(channel);
+
+  let stopped = false;
+  let poll: ReturnType<typeof setInterval> | null = null;
+
+  const startPolling = () => {
+    setStatus('polling');
+    if (!poll) poll = setInterval(() => emit({ type: 'refresh' }), TRADE_POLL_INTERVAL_MS);
+  };
+
+  const stopPolling = () => {
+    if (poll) clearInterval(poll);
+    poll = null;
+  };
+
+  const onRow = (payload: { new: Record<string, unknown> }) => {
+    if (isTradeRow(payload.new)) emit({ type: 'change', trade: payload.new });
+  };
+
+  const tradesChannel = supabase.channel(`trades-${userId}`);
+  channel = tradesChannel;
+
+  // Realtime filters take one condition, so each side of the trade gets its own listener
+  for (const column of ['buyer_id', 'seller_id']) {
+    for (const event of ['INSERT', 'UPDATE'] as const) {
+      tradesChannel.on(
+        'postgres_changes',
+        { event, schema: 'public', table: 'p2p_fiat_trades', filter: `${column}=eq.${userId}` },
+        onRow
+      );
+    }
+  }
+
+  setStatus('connecting');
+  tradesChannel.subscribe((channelStatus) => {
+    if (stopped) return;
+    if (channelStatus === 'SUBSCRIBED') {
+      const recovered = poll !== null;
+      stopPolling();
+      setStatus('live');
+      if (recovered) emit({ type: 'refresh' });
+    } else {
+      // CHANNEL_ERROR, TIMED_OUT or CLOSED; the client keeps retrying in the background
+      startPolling();
+    }
+  });
+
+  return () => {
+    stopped = true;
+    stopPolling();
+    supabase.removeChannel(tradesChannel);
+    if (channel === tradesChannel) {
+      channel = null;
+      setStatus('connecting');
+    }
+  };
+}
+
+// =====================================================
+// MERGING
+// =====================================================
+
+/**
+ * Apply a realtime row to a trade, keeping the fields the row doesn't carry
+ */
+export function mergeTradeRow(trade: P2PFiatTrade, row: TradeRow): P2PFiatTrade {
+  return { ...trade, ...row };
+}